@@ -1,41 +1,267 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import GameCanvas from './components/GameCanvas';
-import { GameState, LevelInfo } from './types';
-import { generateLevelInfo } from './services/geminiService';
+import ReplayViewer from './components/ReplayViewer';
+import ControlsMenu from './components/ControlsMenu';
+import LobbyMenu from './components/LobbyMenu';
+import ProgressMenu from './components/ProgressMenu';
+import { GameState, LevelInfo, Replay, ControlBindings, MetaSave, PlayerLoadout, RunRecord, RunSave, RunStats } from './types';
+import { cancelLevelPrefetcher, createLevelPrefetcher, LevelPrefetcher, prefetchLevel, requestLevel } from './services/levelPrefetchService';
+import { downloadReplay, loadLastReplay, readReplayFile, saveLastReplay } from './services/replayService';
+import { loadBindings, saveBindings } from './services/bindingsService';
+import { loadWeaponMods } from './services/weaponModService';
+import { addRunStats, applyLevelResult, EMPTY_RUN_STATS, getShardsForLevel, loadSave, purchaseUnlock, recordRun, writeSave } from './services/saveService';
+import { clearRunSave, loadRunSave, RUN_SAVE_VERSION, writeRunSave } from './services/runSaveService';
+import { describeMovement, formatKey } from './input/bindings';
+import { generateRunSeed, normalizeRunSeed } from './engine/rng';
+import { createRunLoadouts, UNLOCKS } from './engine/unlocks';
+import { describeLevelParams, resolveLevelParams } from './engine/levelParams';
+import { NetSession } from './net/netSession';
 
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.MENU);
   const [level, setLevel] = useState<number>(1);
   const [levelInfo, setLevelInfo] = useState<LevelInfo | null>(null);
   const [loadingText, setLoadingText] = useState<string>("Initializing...");
+  const [runSeed, setRunSeed] = useState<string>(generateRunSeed);
+  const [lastReplay, setLastReplay] = useState<Replay | null>(loadLastReplay);
+  const [watchedReplay, setWatchedReplay] = useState<Replay | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const replayFileRef = useRef<HTMLInputElement>(null);
+  const [bindings, setBindings] = useState<ControlBindings>(loadBindings);
+  const [showControls, setShowControls] = useState<boolean>(false);
+  const [save, setSave] = useState<MetaSave>(loadSave);
+  const [showProgress, setShowProgress] = useState<boolean>(false);
+  // Unlock perks apply at the start of a run; items carry from level to level.
+  const [loadouts, setLoadouts] = useState<Record<string, PlayerLoadout>>({});
+  const [runStats, setRunStats] = useState<RunStats>(EMPTY_RUN_STATS);
+  const [lastRun, setLastRun] = useState<RunRecord | null>(null);
+  const [runSave, setRunSave] = useState<RunSave | null>(null);
+  const [runSaveError, setRunSaveError] = useState<string | null>(null);
+  const [net, setNet] = useState<NetSession | null>(null);
+  const [partnerConnected, setPartnerConnected] = useState<boolean>(false);
+  const [showLobby, setShowLobby] = useState<boolean>(false);
+  const [netNotice, setNetNotice] = useState<string | null>(null);
+  const isGuest = net?.role === 'guest';
+  // Generates the next level's briefing while the current one is played; one per run seed.
+  const prefetcherRef = useRef<LevelPrefetcher | null>(null);
 
-  const startGame = async () => {
-    setGameState(GameState.LOADING_LEVEL);
-    setLoadingText("Generating World with Gemini AI...");
-    
-    // Fetch Level Data
-    const info = await generateLevelInfo(level);
+  useEffect(() => {
+    loadWeaponMods().then(() => {
+      // A saved run may hold modded weapons, so it is only checked once mods are registered.
+      const { run, error } = loadRunSave();
+      setRunSave(run);
+      setRunSaveError(error);
+    });
+  }, []);
+
+  // Online: the host drives level flow, the guest follows it.
+  useEffect(() => {
+    if (!net) return;
+    return net.subscribe(event => {
+      if (event.type === 'peer-joined') {
+        setPartnerConnected(true);
+        setNetNotice(null);
+      } else if (event.type === 'peer-left' || event.type === 'disconnected') {
+        setPartnerConnected(false);
+        if (net.role === 'guest' || event.type === 'disconnected') {
+          net.close();
+          setNet(null);
+          cancelPrefetch();
+          setGameState(GameState.MENU);
+          setNetNotice(event.type === 'disconnected' ? 'Lost connection to the relay.' : 'The host left the lobby.');
+        } else {
+          setNetNotice('Your partner disconnected.');
+        }
+      } else if (event.type === 'message' && net.role === 'guest') {
+        const message = event.payload;
+        if (message.kind === 'start') {
+          if (message.levelInfo.levelNumber === 1) {
+            setRunStats(EMPTY_RUN_STATS);
+            setLastRun(null);
+          }
+          setRunSeed(message.runSeed);
+          setLevel(message.levelInfo.levelNumber);
+          setLevelInfo(message.levelInfo);
+          setGameState(GameState.PLAYING);
+        } else if (message.kind === 'level-end') {
+          finishLevelRef.current(message.outcome, message.stats);
+          setGameState(message.outcome === 'victory' ? GameState.VICTORY : GameState.GAME_OVER);
+        }
+      }
+    });
+  }, [net]);
+
+  const handleConnected = (session: NetSession) => {
+    setNet(session);
+    setPartnerConnected(session.peerConnected);
+    setNetNotice(null);
+    setShowLobby(false);
+  };
+
+  const leaveLobby = () => {
+    net?.close();
+    setNet(null);
+    setPartnerConnected(false);
+    setNetNotice(null);
+  };
+
+  const cancelPrefetch = () => {
+    if (prefetcherRef.current) cancelLevelPrefetcher(prefetcherRef.current);
+    prefetcherRef.current = null;
+  };
+
+  const getPrefetcher = (seed: string): LevelPrefetcher => {
+    if (prefetcherRef.current?.runSeed !== seed) {
+      cancelPrefetch();
+      prefetcherRef.current = createLevelPrefetcher(seed);
+    }
+    return prefetcherRef.current!;
+  };
+
+  // Callers pass the level explicitly: state set just before calling has not landed yet.
+  const startGame = async (levelNumber: number, seed: string) => {
+    const activeSeed = seed || generateRunSeed();
+    if (activeSeed !== runSeed) setRunSeed(activeSeed);
+    setLevel(levelNumber);
+    const prefetcher = getPrefetcher(activeSeed);
+    const request = requestLevel(prefetcher, levelNumber, provider => setLoadingText(`Generating World with ${provider.name}...`));
+
+    // A prefetched level starts straight away; otherwise wait behind the loading screen
+    let info = request.info;
+    if (!info) {
+      setGameState(GameState.LOADING_LEVEL);
+      setLoadingText("Generating World...");
+      try {
+        info = await request.promise;
+      } catch {
+        return;   // cancelled: the run was abandoned while loading
+      }
+      if (prefetcherRef.current !== prefetcher) return;
+    }
     setLevelInfo(info);
-    
+    net?.send({ kind: 'start', runSeed: activeSeed, levelInfo: info });
+
     setGameState(GameState.PLAYING);
+    prefetchLevel(prefetcher, levelNumber + 1);
+  };
+
+  const updateSave = (next: MetaSave) => {
+    setSave(next);
+    writeSave(next);
+  };
+
+  // Banks a finished level into the save; a defeat also closes the run. Returns the run totals.
+  const finishLevel = (outcome: 'victory' | 'defeat', stats: RunStats): RunStats => {
+    let next = applyLevelResult(save, stats, level, outcome === 'victory');
+    const total = addRunStats(runStats, stats);
+    setRunStats(total);
+    if (outcome === 'defeat') {
+      const record: RunRecord = { ...total, seed: runSeed, endedAt: Date.now(), levelReached: level, shardsEarned: getShardsForLevel(total) };
+      next = recordRun(next, record);
+      setLastRun(record);
+    }
+    updateSave(next);
+    return total;
+  };
+  // The guest learns about level ends from a long-lived subscription, so it calls the latest closure.
+  const finishLevelRef = useRef(finishLevel);
+  finishLevelRef.current = finishLevel;
+
+  const dropRunSave = () => {
+    clearRunSave();
+    setRunSave(null);
+  };
+
+  const beginRun = () => {
+    setLoadouts(createRunLoadouts(save.unlocks));
+    setRunStats(EMPTY_RUN_STATS);
+    setLastRun(null);
+    dropRunSave();
+  };
+
+  const startNewRun = () => {
+    beginRun();
+    startGame(1, runSeed);
+  };
+
+  const continueRun = () => {
+    if (!runSave) return;
+    setLoadouts(runSave.loadouts);
+    setRunStats(runSave.stats);
+    setLastRun(null);
+    startGame(runSave.level + 1, runSave.runSeed);
+  };
+
+  const handlePurchase = (unlockId: string) => {
+    const unlock = UNLOCKS.find(u => u.id === unlockId);
+    if (!unlock) return;
+    // Two quick clicks can share a stale `save`, so each purchase checks against the latest one
+    setSave(prev => {
+      const next = purchaseUnlock(prev, unlock);
+      if (next !== prev) writeSave(next);
+      return next;
+    });
   };
 
-  const handleLevelComplete = () => {
+  const handleLevelComplete = (nextLoadouts: Record<string, PlayerLoadout>, stats: RunStats) => {
+    setLoadouts(nextLoadouts);
+    const total = finishLevel('victory', stats);
+    if (levelInfo) {
+      const run: RunSave = { version: RUN_SAVE_VERSION, runSeed, level, levelInfo, loadouts: nextLoadouts, stats: total, savedAt: Date.now() };
+      writeRunSave(run);
+      setRunSave(run);
+    }
+    net?.send({ kind: 'level-end', outcome: 'victory', stats });
     setGameState(GameState.VICTORY);
   };
 
   const handleNextLevel = () => {
-    setLevel(prev => prev + 1);
-    startGame();
+    startGame(level + 1, runSeed);
   };
 
-  const handleGameOver = () => {
+  const handleGameOver = (stats: RunStats) => {
+    finishLevel('defeat', stats);
+    dropRunSave();
+    cancelPrefetch();
+    net?.send({ kind: 'level-end', outcome: 'defeat', stats });
     setGameState(GameState.GAME_OVER);
   };
 
   const handleRestart = () => {
-    setLevel(1);
-    startGame();
+    beginRun();
+    startGame(1, runSeed);
+  };
+
+  const handleReplayRecorded = (replay: Replay) => {
+    setLastReplay(replay);
+    saveLastReplay(replay);
+  };
+
+  const watchReplay = (replay: Replay) => {
+    setReplayError(null);
+    setWatchedReplay(replay);
+    setGameState(GameState.REPLAY);
+  };
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      watchReplay(await readReplayFile(file));
+    } catch (error) {
+      setReplayError((error as Error).message);
+    }
+  };
+
+  const handleBindingsChange = (next: ControlBindings) => {
+    setBindings(next);
+    saveBindings(next);
+  };
+
+  const exitReplay = () => {
+    setWatchedReplay(null);
+    setGameState(GameState.MENU);
   };
 
   return (
@@ -45,10 +271,20 @@ const App: React.FC = () => {
         gameState={gameState} 
         setGameState={setGameState} 
         levelInfo={levelInfo}
+        runSeed={runSeed}
+        bindings={bindings}
+        loadouts={loadouts}
+        net={net}
         onLevelComplete={handleLevelComplete}
         onGameOver={handleGameOver}
+        onReplayRecorded={handleReplayRecorded}
       />
 
+      {/* Replay Viewer */}
+      {gameState === GameState.REPLAY && watchedReplay && (
+        <ReplayViewer replay={watchedReplay} onExit={exitReplay} />
+      )}
+
       {/* Menu Overlay */}
       {gameState === GameState.MENU && (
         <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 z-50 text-white">
@@ -61,27 +297,131 @@ const App: React.FC = () => {
             <div className="grid grid-cols-2 gap-8 text-left pl-20">
               <div>
                 <span className="text-blue-400 font-bold block mb-2">Player 1 (Boy)</span> 
-                WASD to Move<br/>Space to Shoot
+                {describeMovement(bindings.p1)} to Move<br/>{formatKey(bindings.p1.keys.fire)} to Shoot<br/>{formatKey(bindings.p1.keys.dash)} to Dash<br/>{formatKey(bindings.p1.keys.melee)} to Swing Sword
               </div>
               <div>
                 <span className="text-pink-400 font-bold block mb-2">Player 2 (Girl)</span> 
-                Arrow Keys to Move<br/>Enter to Shoot
+                {describeMovement(bindings.p2)} to Move<br/>{formatKey(bindings.p2.keys.fire)} to Shoot<br/>{formatKey(bindings.p2.keys.dash)} to Dash<br/>{formatKey(bindings.p2.keys.melee)} to Parry
               </div>
             </div>
             <br />
             <span className="text-green-400">RADAR:</span> Check Top-Right to find Crystals (Purple) and Crates (Yellow).
             <br />
-            <span className="text-orange-400">CRATES:</span> Shoot or touch orange crates to find new weapons!
+            <span className="text-orange-400">CRATES:</span> Shoot or touch orange crates to find new weapons! Stand on one and press Interact to swap; rarer tiers hit harder. Interact elsewhere reloads.
+            <br />
+            <span className="text-yellow-300">ITEMS:</span> Enemies and bosses drop items that stack and stay with you between levels.
+            <br />
+            <span className="text-cyan-400">PARRY:</span> Swing into enemy bullets to send them back for bonus points.
+            <br />
+            <span className="text-red-400">DANGER:</span> Red lanes mean a charge, red lines a sniper sight, moving mounds a burrower. Kill green healers first.
+            <br />
+            <span className="text-green-400">REVIVE:</span> A fallen partner bleeds out unless you stand beside them for a few seconds.
+            <br />
+            <span className="text-sky-400">GAMEPADS:</span> Plug in up to two controllers; the left stick moves.
           </p>
-          <button 
-            onClick={startGame}
-            className="px-8 py-4 bg-white text-black font-bold text-xl rounded hover:bg-gray-200 transition-all transform hover:scale-105"
-          >
-            Start Adventure
-          </button>
+          <div className="flex items-center gap-2 mb-6 font-mono">
+            <label htmlFor="run-seed" className="text-gray-400">SEED</label>
+            <input
+              id="run-seed"
+              value={runSeed}
+              onChange={e => setRunSeed(normalizeRunSeed(e.target.value))}
+              spellCheck={false}
+              className="w-48 px-3 py-2 bg-gray-900 border border-gray-600 rounded text-center tracking-widest uppercase focus:outline-none focus:border-blue-500"
+            />
+            <button
+              onClick={() => setRunSeed(generateRunSeed())}
+              className="px-3 py-2 bg-gray-800 border border-gray-600 rounded hover:bg-gray-700"
+              title="Roll a new seed"
+            >
+              🎲
+            </button>
+          </div>
+          {net && (
+            <div className="flex items-center gap-4 mb-6 px-4 py-2 bg-gray-900 border border-gray-700 rounded font-mono">
+              <span>
+                {net.role === 'host' ? 'Hosting' : 'Joined'} lobby <span className="text-yellow-300 text-xl tracking-widest">{net.code}</span>
+                {' · '}
+                {partnerConnected ? <span className="text-green-400">partner connected</span> : <span className="text-gray-400">waiting for partner…</span>}
+              </span>
+              <button onClick={leaveLobby} className="px-3 py-1 border border-gray-600 rounded hover:bg-gray-700">Leave</button>
+            </div>
+          )}
+          {netNotice && <p className="text-yellow-400 mb-4">{netNotice}</p>}
+          {runSaveError && <p className="text-yellow-400 mb-4">Your saved run was damaged and has been discarded ({runSaveError}).</p>}
+          {!isGuest && runSave && (
+            <button
+              onClick={continueRun}
+              disabled={!!net && !partnerConnected}
+              className="mb-4 px-8 py-4 bg-green-500 text-black font-bold text-xl rounded hover:bg-green-400 transition-all transform hover:scale-105 disabled:opacity-50 disabled:hover:scale-100"
+            >
+              Continue Run · Level {runSave.level + 1}
+              <span className="block text-sm font-mono font-normal">Seed {runSave.runSeed} · {runSave.stats.score} pts · after {runSave.levelInfo.biomeName}</span>
+            </button>
+          )}
+          {isGuest ? (
+            <p className="text-xl font-mono animate-pulse">Waiting for the host to start…</p>
+          ) : (
+            <button 
+              onClick={startNewRun}
+              disabled={!!net && !partnerConnected}
+              className="px-8 py-4 bg-white text-black font-bold text-xl rounded hover:bg-gray-200 transition-all transform hover:scale-105 disabled:opacity-50 disabled:hover:scale-100"
+            >
+              Start Adventure
+            </button>
+          )}
+          <div className="flex gap-4 mt-6">
+            {!net && (
+              <button
+                onClick={() => setShowLobby(true)}
+                className="px-4 py-2 border border-gray-500 rounded hover:bg-gray-800"
+              >
+                Play Online
+              </button>
+            )}
+            <button
+              onClick={() => setShowProgress(true)}
+              className="px-4 py-2 border border-purple-500 text-purple-200 rounded hover:bg-purple-900/50"
+            >
+              Progress · 💎 {save.shards}
+            </button>
+            <button
+              onClick={() => setShowControls(true)}
+              className="px-4 py-2 border border-gray-500 rounded hover:bg-gray-800"
+            >
+              Controls
+            </button>
+            {lastReplay && (
+              <button
+                onClick={() => watchReplay(lastReplay)}
+                className="px-4 py-2 border border-gray-500 rounded hover:bg-gray-800"
+              >
+                Watch Last Replay
+              </button>
+            )}
+            <button
+              onClick={() => replayFileRef.current?.click()}
+              className="px-4 py-2 border border-gray-500 rounded hover:bg-gray-800"
+            >
+              Load Replay File
+            </button>
+            <input ref={replayFileRef} type="file" accept=".json,application/json" className="hidden" onChange={handleReplayFile} />
+          </div>
+          {replayError && <p className="text-red-400 mt-3">Replay could not be loaded: {replayError}</p>}
         </div>
       )}
 
+      {gameState === GameState.MENU && showLobby && (
+        <LobbyMenu onConnected={handleConnected} onClose={() => setShowLobby(false)} />
+      )}
+
+      {gameState === GameState.MENU && showProgress && (
+        <ProgressMenu save={save} onPurchase={handlePurchase} onClose={() => setShowProgress(false)} />
+      )}
+
+      {gameState === GameState.MENU && showControls && (
+        <ControlsMenu bindings={bindings} onChange={handleBindingsChange} onClose={() => setShowControls(false)} />
+      )}
+
       {/* Loading Screen */}
       {gameState === GameState.LOADING_LEVEL && (
         <div className="absolute inset-0 flex flex-col items-center justify-center bg-black z-50 text-white">
@@ -95,12 +435,21 @@ const App: React.FC = () => {
         <div className="absolute inset-0 flex flex-col items-center justify-center bg-green-900/90 z-50 text-white backdrop-blur-sm">
           <h1 className="text-5xl font-bold mb-4 text-green-300">Sector Cleared!</h1>
           <p className="text-xl mb-6">Boss <span className="text-red-400 font-bold">{levelInfo.bossName}</span> defeated.</p>
-          <button 
-            onClick={handleNextLevel}
-            className="px-8 py-4 bg-green-500 text-black font-bold text-xl rounded hover:bg-green-400 shadow-[0_0_20px_rgba(34,197,94,0.5)] transition-all"
-          >
-            Warp to Level {level + 1}
-          </button>
+          {isGuest ? (
+            <p className="text-xl font-mono animate-pulse">Waiting for the host to warp…</p>
+          ) : (
+            <button 
+              onClick={handleNextLevel}
+              className="px-8 py-4 bg-green-500 text-black font-bold text-xl rounded hover:bg-green-400 shadow-[0_0_20px_rgba(34,197,94,0.5)] transition-all"
+            >
+              Warp to Level {level + 1}
+            </button>
+          )}
+          {lastReplay && (
+            <button onClick={() => downloadReplay(lastReplay)} className="mt-4 text-green-200 underline hover:text-white">
+              Save Replay
+            </button>
+          )}
         </div>
       )}
 
@@ -108,13 +457,35 @@ const App: React.FC = () => {
       {gameState === GameState.GAME_OVER && (
         <div className="absolute inset-0 flex flex-col items-center justify-center bg-red-900/90 z-50 text-white backdrop-blur-sm">
           <h1 className="text-6xl font-bold mb-4 text-red-500 drop-shadow-md">DEFEAT</h1>
-          <p className="text-xl mb-8">The journey ends here...</p>
-          <button 
-            onClick={handleRestart}
-            className="px-8 py-4 bg-white text-black font-bold text-xl rounded hover:bg-gray-200"
-          >
-            Restart Journey
-          </button>
+          <p className="text-xl mb-2">The journey ends here...</p>
+          <p className="text-sm font-mono text-red-200 mb-6">Seed {runSeed} · Level {level}</p>
+          {lastRun && (
+            <div className="grid grid-cols-5 gap-6 mb-6 font-mono text-center">
+              <div><div className="text-3xl font-bold text-yellow-300">{lastRun.score}</div><div className="text-red-200 text-sm">score</div></div>
+              <div><div className="text-3xl font-bold">{lastRun.kills}</div><div className="text-red-200 text-sm">kills</div></div>
+              <div><div className="text-3xl font-bold">{lastRun.crystals}</div><div className="text-red-200 text-sm">crystals</div></div>
+              <div><div className="text-3xl font-bold text-green-300">{lastRun.revives}</div><div className="text-red-200 text-sm">revives</div></div>
+              <div><div className="text-3xl font-bold text-purple-300">+{lastRun.shardsEarned}</div><div className="text-red-200 text-sm">shards</div></div>
+            </div>
+          )}
+          {lastRun && save.highScores[0] === lastRun && lastRun.score > 0 && (
+            <p className="text-2xl font-bold text-yellow-300 mb-6 animate-pulse">New high score!</p>
+          )}
+          {isGuest ? (
+            <p className="text-xl font-mono animate-pulse">Waiting for the host to restart…</p>
+          ) : (
+            <button 
+              onClick={handleRestart}
+              className="px-8 py-4 bg-white text-black font-bold text-xl rounded hover:bg-gray-200"
+            >
+              Restart Journey
+            </button>
+          )}
+          {lastReplay && (
+            <button onClick={() => downloadReplay(lastReplay)} className="mt-4 text-red-200 underline hover:text-white">
+              Save Replay
+            </button>
+          )}
         </div>
       )}
       
@@ -127,6 +498,9 @@ const App: React.FC = () => {
             <p className="text-xl text-yellow-300 mt-2 font-serif italic shadow-black drop-shadow-md max-w-2xl mx-auto bg-black/50 p-2 rounded">
                 "{levelInfo.description}"
             </p>
+            <p className="text-sm text-cyan-300 mt-2 font-mono uppercase tracking-widest drop-shadow-md">
+                {describeLevelParams(resolveLevelParams(levelInfo)).join(' · ')}
+            </p>
         </div>
       )}
 
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { BindableAction, ControlBindings, PlayerBindings } from '../types';
+import { ACTION_LABELS, BINDABLE_ACTIONS, createDefaultBindings, formatGamepadButton, formatKey } from '../input/bindings';
+import { readGamepads } from '../input/gamepad';
+
+interface ControlsMenuProps {
+  bindings: ControlBindings;
+  onChange: (bindings: ControlBindings) => void;
+  onClose: () => void;
+}
+
+const PLAYER_LABELS: Record<string, { name: string; color: string }> = {
+  p1: { name: 'Player 1 (Boy)', color: 'text-blue-400' },
+  p2: { name: 'Player 2 (Girl)', color: 'text-pink-400' },
+};
+
+const GAMEPAD_SLOTS = [0, 1, 2, 3];
+
+type Listening = { playerId: string; action: BindableAction; device: 'keys' | 'gamepad' };
+
+const ControlsMenu: React.FC<ControlsMenuProps> = ({ bindings, onChange, onClose }) => {
+  const [listening, setListening] = useState<Listening | null>(null);
+  const [connectedPads, setConnectedPads] = useState<boolean[]>([]);
+
+  const update = (playerId: string, change: (next: PlayerBindings) => void) => {
+    const next: ControlBindings = structuredClone(bindings);
+    change(next[playerId]);
+    onChange(next);
+  };
+
+  // Capture the next key press for a keyboard rebind. Escape cancels.
+  useEffect(() => {
+    if (!listening || listening.device !== 'keys') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      if (e.code !== 'Escape') update(listening.playerId, p => { p.keys[listening.action] = e.code; });
+      setListening(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [listening]);
+
+  // Poll pads for connection status and, while rebinding, the first newly pressed button.
+  useEffect(() => {
+    let frameId = 0;
+    let held: boolean[] | null = null;
+    const poll = () => {
+      const pads = readGamepads();
+      setConnectedPads(prev => {
+        const next = GAMEPAD_SLOTS.map(i => !!pads[i]);
+        return next.every((c, i) => c === prev[i]) ? prev : next;
+      });
+      if (listening?.device === 'gamepad') {
+        const index = bindings[listening.playerId].gamepadIndex;
+        const pad = index === null ? null : pads[index];
+        if (pad) {
+          if (!held) held = pad.pressed.slice();
+          const button = pad.pressed.findIndex((pressed, i) => pressed && !held![i]);
+          if (button >= 0) {
+            update(listening.playerId, p => { p.gamepadButtons[listening.action] = button; });
+            setListening(null);
+            return;
+          }
+          held = pad.pressed.map((pressed, i) => pressed && held![i]);
+        }
+      }
+      frameId = requestAnimationFrame(poll);
+    };
+    frameId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frameId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [listening, bindings]);
+
+  const isListening = (playerId: string, action: BindableAction, device: Listening['device']) =>
+    listening?.playerId === playerId && listening.action === action && listening.device === device;
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/90 z-50 text-white font-mono">
+      <h2 className="text-4xl font-bold mb-2">Controls</h2>
+      <p className="text-gray-400 mb-6">Click a binding, then press the new key or gamepad button. Esc cancels.</p>
+
+      <div className="grid grid-cols-2 gap-12">
+        {Object.keys(bindings).map(playerId => {
+          const player = bindings[playerId];
+          const label = PLAYER_LABELS[playerId] || { name: playerId, color: 'text-white' };
+          return (
+            <div key={playerId}>
+              <h3 className={`${label.color} font-bold text-xl mb-3`}>{label.name}</h3>
+              <label className="flex items-center gap-2 mb-4 text-sm">
+                Gamepad
+                <select
+                  value={player.gamepadIndex === null ? '' : String(player.gamepadIndex)}
+                  onChange={e => update(playerId, p => { p.gamepadIndex = e.target.value === '' ? null : Number(e.target.value); })}
+                  className="bg-gray-900 border border-gray-600 rounded px-2 py-1"
+                >
+                  <option value="">None</option>
+                  {GAMEPAD_SLOTS.map(i => (
+                    <option key={i} value={i}>Pad {i + 1}{connectedPads[i] ? ' (connected)' : ''}</option>
+                  ))}
+                </select>
+              </label>
+              <table className="text-sm">
+                <tbody>
+                  {BINDABLE_ACTIONS.map(action => (
+                    <tr key={action}>
+                      <td className="pr-4 py-1 text-gray-300">{ACTION_LABELS[action]}</td>
+                      <td className="pr-2 py-1">
+                        <button
+                          onClick={() => setListening({ playerId, action, device: 'keys' })}
+                          className={`w-28 px-2 py-1 rounded border ${isListening(playerId, action, 'keys') ? 'border-yellow-400 animate-pulse' : 'border-gray-600 hover:bg-gray-800'}`}
+                        >
+                          {isListening(playerId, action, 'keys') ? 'Press key…' : formatKey(player.keys[action])}
+                        </button>
+                      </td>
+                      <td className="py-1">
+                        <button
+                          onClick={() => setListening({ playerId, action, device: 'gamepad' })}
+                          disabled={player.gamepadIndex === null}
+                          className={`w-28 px-2 py-1 rounded border disabled:opacity-30 ${isListening(playerId, action, 'gamepad') ? 'border-yellow-400 animate-pulse' : 'border-gray-600 hover:bg-gray-800'}`}
+                        >
+                          {isListening(playerId, action, 'gamepad') ? 'Press button…' : formatGamepadButton(player.gamepadButtons[action])}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-gray-500 text-sm mt-6">The left stick always moves; the bindings above add to it.</p>
+
+      <div className="flex gap-4 mt-6">
+        <button onClick={() => onChange(createDefaultBindings())} className="px-6 py-3 border border-gray-500 rounded hover:bg-gray-800">
+          Reset to Defaults
+        </button>
+        <button onClick={onClose} className="px-6 py-3 bg-white text-black font-bold rounded hover:bg-gray-200">
+          Done
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ControlsMenu;
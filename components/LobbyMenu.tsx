@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { connectToLobby, getDefaultRelayUrl, NetSession } from '../net/netSession';
+
+interface LobbyMenuProps {
+  onConnected: (session: NetSession) => void;
+  onClose: () => void;
+}
+
+const LobbyMenu: React.FC<LobbyMenuProps> = ({ onConnected, onClose }) => {
+  const [relayUrl, setRelayUrl] = useState<string>(getDefaultRelayUrl);
+  const [code, setCode] = useState<string>('');
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const connect = async (request: { role: 'host' } | { role: 'guest'; code: string }) => {
+    setBusy(true);
+    setError(null);
+    try {
+      onConnected(await connectToLobby(relayUrl, request));
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/90 z-50 text-white font-mono">
+      <h2 className="text-4xl font-bold mb-2">Online Co-op</h2>
+      <p className="text-gray-400 mb-8 max-w-xl text-center">
+        One player hosts and plays the Boy; the other joins with the lobby code and plays the Girl.
+        Both use their Player 1 controls.
+      </p>
+
+      <label className="flex items-center gap-2 mb-8 text-sm">
+        Relay
+        <input
+          value={relayUrl}
+          onChange={e => setRelayUrl(e.target.value)}
+          spellCheck={false}
+          className="w-72 px-3 py-2 bg-gray-900 border border-gray-600 rounded focus:outline-none focus:border-blue-500"
+        />
+      </label>
+
+      <div className="grid grid-cols-2 gap-12 items-start">
+        <div className="flex flex-col items-center">
+          <h3 className="text-blue-400 font-bold text-xl mb-4">Host</h3>
+          <button
+            onClick={() => connect({ role: 'host' })}
+            disabled={busy}
+            className="px-6 py-3 bg-white text-black font-bold rounded hover:bg-gray-200 disabled:opacity-50"
+          >
+            Create Lobby
+          </button>
+        </div>
+        <div className="flex flex-col items-center">
+          <h3 className="text-pink-400 font-bold text-xl mb-4">Join</h3>
+          <input
+            value={code}
+            onChange={e => setCode(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 4))}
+            placeholder="CODE"
+            spellCheck={false}
+            className="w-32 px-3 py-2 mb-3 bg-gray-900 border border-gray-600 rounded text-center text-2xl tracking-widest focus:outline-none focus:border-pink-500"
+          />
+          <button
+            onClick={() => connect({ role: 'guest', code })}
+            disabled={busy || code.length !== 4}
+            className="px-6 py-3 bg-white text-black font-bold rounded hover:bg-gray-200 disabled:opacity-50"
+          >
+            Join Lobby
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-red-400 mt-8 max-w-xl text-center">{error}</p>}
+
+      <button onClick={onClose} className="mt-10 px-6 py-3 border border-gray-500 rounded hover:bg-gray-800">
+        Back
+      </button>
+    </div>
+  );
+};
+
+export default LobbyMenu;
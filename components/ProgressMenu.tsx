@@ -0,0 +1,102 @@
+import React from 'react';
+import { MetaSave, RunRecord } from '../types';
+import { UNLOCKS, canUnlock } from '../engine/unlocks';
+
+interface ProgressMenuProps {
+  save: MetaSave;
+  onPurchase: (unlockId: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (epochMs: number) => new Date(epochMs).toLocaleDateString();
+
+const RunTable: React.FC<{ runs: RunRecord[]; empty: string }> = ({ runs, empty }) =>
+  runs.length === 0 ? (
+    <p className="text-gray-500 text-sm">{empty}</p>
+  ) : (
+    <table className="text-sm w-full">
+      <thead className="text-gray-400">
+        <tr><th className="text-left pr-3">Score</th><th className="text-left pr-3">Level</th><th className="text-left pr-3">Kills</th><th className="text-left pr-3">Seed</th><th className="text-left">Date</th></tr>
+      </thead>
+      <tbody>
+        {runs.map((run, i) => (
+          <tr key={`${run.endedAt}-${i}`}>
+            <td className="pr-3 text-yellow-300">{run.score}</td>
+            <td className="pr-3">{run.levelReached}</td>
+            <td className="pr-3">{run.kills}</td>
+            <td className="pr-3 tracking-widest">{run.seed}</td>
+            <td className="text-gray-400">{formatDate(run.endedAt)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+const ProgressMenu: React.FC<ProgressMenuProps> = ({ save, onPurchase, onClose }) => {
+  const { lifetime } = save;
+  const stats: [string, number][] = [
+    ['Runs', lifetime.runs], ['Best Level', lifetime.bestLevel], ['Levels Cleared', lifetime.levelsCleared],
+    ['Kills', lifetime.kills], ['Crystals', lifetime.crystals], ['Bosses', lifetime.bosses], ['Revives', lifetime.revives],
+  ];
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/90 z-50 text-white font-mono overflow-y-auto py-8">
+      <h2 className="text-4xl font-bold mb-2">Progress</h2>
+      <p className="text-purple-300 text-xl mb-6">💎 {save.shards} shards <span className="text-gray-500 text-sm">(1 per crystal, 10 per boss)</span></p>
+
+      <div className="grid grid-cols-2 gap-12 max-w-5xl w-full px-8">
+        <div>
+          <h3 className="text-xl font-bold mb-3 text-purple-400">Unlocks</h3>
+          <ul className="space-y-2">
+            {UNLOCKS.map(unlock => {
+              const owned = save.unlocks.includes(unlock.id);
+              const locked = !!unlock.requires && !save.unlocks.includes(unlock.requires);
+              const required = UNLOCKS.find(u => u.id === unlock.requires);
+              return (
+                <li key={unlock.id} className={`flex items-center justify-between gap-4 px-3 py-2 rounded border ${owned ? 'border-green-600 bg-green-950/40' : 'border-gray-700'} ${locked ? 'opacity-50' : ''}`}>
+                  <div>
+                    <div className="font-bold">{unlock.name}</div>
+                    <div className="text-gray-400 text-sm">{unlock.description}</div>
+                    {locked && required && <div className="text-gray-500 text-xs">Requires {required.name}</div>}
+                  </div>
+                  {owned ? (
+                    <span className="text-green-400 text-sm">Owned</span>
+                  ) : (
+                    <button
+                      onClick={() => onPurchase(unlock.id)}
+                      disabled={!canUnlock(save, unlock)}
+                      className="px-3 py-1 whitespace-nowrap bg-purple-600 rounded hover:bg-purple-500 disabled:opacity-40 disabled:hover:bg-purple-600"
+                    >
+                      💎 {unlock.cost}
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+
+        <div>
+          <h3 className="text-xl font-bold mb-3 text-yellow-300">High Scores</h3>
+          <RunTable runs={save.highScores} empty="No finished runs yet." />
+
+          <h3 className="text-xl font-bold mt-6 mb-3 text-sky-400">Lifetime</h3>
+          <div className="grid grid-cols-3 gap-2 text-sm">
+            {stats.map(([label, value]) => (
+              <div key={label} className="px-2 py-1 bg-gray-900 rounded"><span className="text-gray-400">{label}</span> {value}</div>
+            ))}
+          </div>
+
+          <h3 className="text-xl font-bold mt-6 mb-3 text-gray-300">Recent Runs</h3>
+          <RunTable runs={save.history.slice(0, 5)} empty="Nothing here yet." />
+        </div>
+      </div>
+
+      <button onClick={onClose} className="mt-8 px-6 py-3 bg-white text-black font-bold rounded hover:bg-gray-200">
+        Done
+      </button>
+    </div>
+  );
+};
+
+export default ProgressMenu;
@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FrameInput, GameWorld, Replay } from '../types';
+import { stepWorld } from '../engine/world';
+import { TICK_RATE } from '../engine/constants';
+import { createReplayWorld, decodeReplayInputs } from '../engine/replay';
+import { createWorldView, captureView, followCamera, snapCamera, drawWorld, WorldView } from '../render/worldRenderer';
+import { createFrameClock, advanceClock, getClockAlpha, FrameClock } from '../render/frameClock';
+
+interface ReplayViewerProps {
+  replay: Replay;
+  onExit: () => void;
+}
+
+// Worlds are plain data, so seeking restores the nearest earlier snapshot and re-simulates from there.
+const KEYFRAME_INTERVAL = 10 * TICK_RATE;
+const SPEEDS = [1, 2, 4];
+
+const formatTime = (ticks: number) => {
+  const seconds = Math.floor(ticks / TICK_RATE);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onExit }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const framesRef = useRef<FrameInput[]>([]);
+  const worldRef = useRef<GameWorld>(createReplayWorld(replay));
+  const viewRef = useRef<WorldView>(createWorldView());
+  const clockRef = useRef<FrameClock>(createFrameClock());
+  const keyframesRef = useRef<Map<number, GameWorld>>(new Map());
+  const tickRef = useRef<number>(0);
+  const frameIdRef = useRef<number>(0);
+
+  const [playing, setPlaying] = useState<boolean>(true);
+  const [speed, setSpeed] = useState<number>(1);
+  const [tick, setTick] = useState<number>(0);
+  const [error, setError] = useState<string | null>(null);
+  const playingRef = useRef(playing);
+  const speedRef = useRef(speed);
+  playingRef.current = playing;
+  speedRef.current = speed;
+
+  useEffect(() => {
+    try {
+      framesRef.current = decodeReplayInputs(replay);
+    } catch (e) {
+      setError((e as Error).message);
+      return;
+    }
+    worldRef.current = createReplayWorld(replay);
+    keyframesRef.current = new Map([[0, structuredClone(worldRef.current)]]);
+    tickRef.current = 0;
+    viewRef.current = createWorldView();
+    clockRef.current = createFrameClock();
+    frameIdRef.current = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frameIdRef.current);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [replay]);
+
+  const stepOnce = () => {
+    const world = worldRef.current;
+    captureView(viewRef.current, world);
+    stepWorld(world, framesRef.current[tickRef.current]);
+    followCamera(viewRef.current, world);
+    tickRef.current++;
+    if (tickRef.current % KEYFRAME_INTERVAL === 0 && !keyframesRef.current.has(tickRef.current)) {
+      keyframesRef.current.set(tickRef.current, structuredClone(world));
+    }
+  };
+
+  const seek = (target: number) => {
+    target = Math.max(0, Math.min(framesRef.current.length, target));
+    let start = Math.floor(target / KEYFRAME_INTERVAL) * KEYFRAME_INTERVAL;
+    while (!keyframesRef.current.has(start)) start -= KEYFRAME_INTERVAL;
+    if (target < tickRef.current || start > tickRef.current) {
+      worldRef.current = structuredClone(keyframesRef.current.get(start)!);
+      tickRef.current = start;
+    }
+    while (tickRef.current < target) stepOnce();
+
+    viewRef.current = createWorldView();
+    snapCamera(viewRef.current, worldRef.current);
+    setTick(tickRef.current);
+  };
+
+  const loop = (now: number) => {
+    const ticks = advanceClock(clockRef.current, now, playingRef.current ? speedRef.current : 0);
+    for (let i = 0; i < ticks && tickRef.current < framesRef.current.length; i++) stepOnce();
+    if (ticks > 0) setTick(tickRef.current);
+    if (tickRef.current >= framesRef.current.length && playingRef.current) setPlaying(false);
+
+    if (canvasRef.current) drawWorld(canvasRef.current, worldRef.current, viewRef.current, playingRef.current ? getClockAlpha(clockRef.current) : 1);
+    frameIdRef.current = requestAnimationFrame(loop);
+  };
+
+  const togglePlaying = () => {
+    if (!playing && tickRef.current >= framesRef.current.length) seek(0);
+    setPlaying(!playing);
+  };
+
+  const total = framesRef.current.length || replay.tickCount;
+
+  return (
+    <div className="absolute inset-0 z-50">
+      <canvas ref={canvasRef} className="fixed top-0 left-0 w-full h-full" />
+
+      <div className="absolute top-4 left-4 bg-black/70 text-white font-mono px-4 py-2 rounded">
+        <span className="text-red-400 font-bold">● REPLAY</span> Level {replay.levelInfo.levelNumber} · {replay.levelInfo.biomeName} · Seed {replay.runSeed}
+      </div>
+
+      {error && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 text-white">
+          <p className="text-xl text-red-400 mb-6">Replay could not be played: {error}</p>
+          <button onClick={onExit} className="px-6 py-3 bg-white text-black font-bold rounded hover:bg-gray-200">Back to Menu</button>
+        </div>
+      )}
+
+      <div className="absolute bottom-0 left-0 right-0 flex items-center gap-4 px-6 py-4 bg-black/80 text-white font-mono">
+        <button onClick={togglePlaying} className="w-24 px-3 py-2 bg-white text-black font-bold rounded hover:bg-gray-200">
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={total}
+          value={tick}
+          onChange={e => seek(Number(e.target.value))}
+          className="flex-1 accent-pink-500"
+        />
+        <span className="w-28 text-right">{formatTime(tick)} / {formatTime(total)}</span>
+        {SPEEDS.map(s => (
+          <button
+            key={s}
+            onClick={() => setSpeed(s)}
+            className={`px-3 py-2 rounded border ${speed === s ? 'bg-pink-500 border-pink-500' : 'border-gray-600 hover:bg-gray-700'}`}
+          >
+            {s}x
+          </button>
+        ))}
+        <button onClick={onExit} className="px-4 py-2 border border-gray-600 rounded hover:bg-gray-700">Exit</button>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,117 @@
+import { Biome, LevelInfo } from '../types';
+import { hashSeed } from './rng';
+
+// Registry order matters: a level whose text matches no keywords gets one picked by a hash of it.
+export const BIOMES: Biome[] = [
+  {
+    // The original look: dark plains with groves and the odd outpost
+    id: 'outskirts', name: 'Outskirts',
+    keywords: ['sector', 'outpost', 'colony', 'frontier', 'plain', 'wasteland', 'settlement', 'base'],
+    palette: {
+      ground: '#0f172a', grid: '#1e293b',
+      trees: ['#166534', '#15803d'], foliage: '#22c55e',
+      buildings: ['#1f2937', '#374151'], roof: '#4b5563', windows: ['#facc15', '#0ea5e9'],
+      ruin: '#334155',
+      cover: '#57534e',
+      terrain: { water: '#1e3a8a' },
+    },
+    terrain: ['water', 'mud'], terrainCoverage: 0.1,
+    treeDensity: 0.55, buildingDensity: 0.15, ruinDensity: 0.02, coverDensity: 0.05,
+  },
+  {
+    id: 'wildwood', name: 'Wildwood',
+    keywords: ['forest', 'jungle', 'grove', 'wood', 'swamp', 'marsh', 'bog', 'fung', 'spore', 'overgrown', 'vine', 'toxic'],
+    palette: {
+      ground: '#0c1a12', grid: '#14291c',
+      trees: ['#14532d', '#166534', '#365314'], foliage: '#4ade80',
+      buildings: ['#292524', '#3f3f46'], roof: '#57534e', windows: ['#a3e635', '#facc15'],
+      ruin: '#3f4a3a',
+      cover: '#44403c',
+      terrain: { water: '#134e4a', mud: '#3b2f1c', acid: '#4d7c0f' },
+    },
+    terrain: ['mud', 'water', 'acid'], terrainCoverage: 0.22,
+    treeDensity: 0.7, buildingDensity: 0.03, ruinDensity: 0.04, coverDensity: 0.03,
+  },
+  {
+    id: 'volcanic', name: 'Volcanic Wastes',
+    keywords: ['volcan', 'lava', 'magma', 'fire', 'ember', 'ash', 'molten', 'inferno', 'burn', 'scorch', 'sulfur', 'flame', 'cinder'],
+    palette: {
+      ground: '#1c1010', grid: '#2a1614',
+      trees: ['#292524', '#44403c'], foliage: '#7c2d12',
+      buildings: ['#1c1917', '#292524'], roof: '#78350f', windows: ['#f97316', '#fbbf24'],
+      ruin: '#44403c',
+      cover: '#57534e',
+      terrain: { lava: '#dc2626' },
+    },
+    terrain: ['lava'], terrainCoverage: 0.2,
+    treeDensity: 0.3, buildingDensity: 0.03, ruinDensity: 0.08, coverDensity: 0.04,
+  },
+  {
+    id: 'frozen', name: 'Frozen Reach',
+    keywords: ['ice', 'icy', 'frost', 'frozen', 'snow', 'glacier', 'tundra', 'cryo', 'arctic', 'winter', 'cold', 'polar', 'rime'],
+    palette: {
+      ground: '#131c2b', grid: '#1e2a3d',
+      trees: ['#1e3a5f', '#0f3a4a'], foliage: '#e0f2fe',
+      buildings: ['#1e293b', '#334155'], roof: '#cbd5e1', windows: ['#7dd3fc', '#e0f2fe'],
+      ruin: '#475569',
+      cover: '#64748b',
+      terrain: { water: '#1d4ed8', ice: '#93c5fd' },
+    },
+    terrain: ['ice', 'water'], terrainCoverage: 0.25,
+    treeDensity: 0.4, buildingDensity: 0.04, ruinDensity: 0.04, coverDensity: 0.04,
+  },
+  {
+    id: 'crystal', name: 'Crystal Expanse',
+    keywords: ['crystal', 'prism', 'gem', 'quartz', 'shard', 'geode', 'cavern', 'cave', 'lumin', 'glow', 'amethyst', 'facet'],
+    palette: {
+      ground: '#150f24', grid: '#221736',
+      trees: ['#6d28d9', '#4c1d95'], foliage: '#c4b5fd',
+      buildings: ['#1e1b4b', '#312e81'], roof: '#6366f1', windows: ['#e879f9', '#67e8f9'],
+      ruin: '#3b3054',
+      cover: '#4c1d95',
+      terrain: { water: '#164e63', crystal_field: '#a855f7' },
+    },
+    terrain: ['crystal_field', 'water'], terrainCoverage: 0.2,
+    treeDensity: 0.35, buildingDensity: 0.04, ruinDensity: 0.05, coverDensity: 0.04,
+  },
+  {
+    id: 'ruins', name: 'Sunken Ruins',
+    keywords: ['ruin', 'ancient', 'temple', 'tomb', 'forgotten', 'lost', 'relic', 'desert', 'dune', 'sand', 'necro', 'citadel', 'empire'],
+    palette: {
+      ground: '#1c1a12', grid: '#2b2718',
+      trees: ['#3f6212', '#4d7c0f'], foliage: '#a3a355',
+      buildings: ['#292524', '#3f3a2e'], roof: '#a16207', windows: ['#fde047', '#fb923c'],
+      ruin: '#78716c',
+      cover: '#a8a29e',
+      terrain: { water: '#155e75', mud: '#57452a' },
+    },
+    terrain: ['water', 'mud'], terrainCoverage: 0.08,
+    treeDensity: 0.15, buildingDensity: 0.05, ruinDensity: 0.3, coverDensity: 0.08,
+  },
+];
+
+const biomesById = new Map(BIOMES.map(b => [b.id, b]));
+
+export const getBiome = (id: string): Biome => biomesById.get(id) || BIOMES[0];
+
+/**
+ * Chooses the terrain for a level from what the level info says about it: the biome whose
+ * keywords match the most words of the biome name and description, or a hash-picked one.
+ */
+export const pickBiome = (levelInfo: LevelInfo | null): string => {
+  if (!levelInfo) return BIOMES[0].id;
+  const text = `${levelInfo.biomeName} ${levelInfo.description}`;
+  const words = text.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  // The biome name counts double: it is what the player reads on the briefing
+  const nameWords = levelInfo.biomeName.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  const score = (b: Biome) => b.keywords.reduce((sum, k) =>
+    sum + words.filter(w => w.startsWith(k)).length + nameWords.filter(w => w.startsWith(k)).length, 0);
+
+  let best: Biome | null = null;
+  let bestScore = 0;
+  for (const b of BIOMES) {
+    const s = score(b);
+    if (s > bestScore) { best = b; bestScore = s; }
+  }
+  return (best || BIOMES[hashSeed(text) % BIOMES.length]).id;
+};
@@ -0,0 +1,159 @@
+import { BossPattern, BossState, EnemyBehaviorContext, LevelInfo } from '../types';
+import { createRng, hashSeed, pick, random } from './rng';
+
+const BOSS_CHARGE_TELEGRAPH = 45;
+const BOSS_CHARGE_TIME = 40;
+const BOSS_CHARGE_SPEED = 10.5;
+const SLAM_RADIUS = 150;
+const PHASE_PAUSE = 60;       // breather after crossing a threshold
+const MAX_PHASES = 4;
+
+const approach = ({ force, heading, speed }: EnemyBehaviorContext) => {
+  force.x += Math.cos(heading) * speed;
+  force.y += Math.sin(heading) * speed;
+};
+
+// Registry order matters: pattern order is shuffled with a seeded rng.
+export const BOSS_PATTERNS: BossPattern[] = [
+  {
+    id: 'ring', name: 'Nova Ring', duration: 1, cooldown: 120,
+    keywords: ['nova', 'star', 'sun', 'flame', 'fire', 'burn', 'crystal', 'light'],
+    update: ({ enemy, fire }) => {
+      for (let k = 0; k < 16; k++) fire(enemy.rotation + (Math.PI / 8) * k, 5);
+    },
+  },
+  {
+    id: 'spiral', name: 'Spiral', duration: 120, cooldown: 90,
+    keywords: ['storm', 'wind', 'spiral', 'vortex', 'cyclone', 'dance', 'spin', 'whirl', 'void', 'tide'],
+    update: ({ fire }, tick) => {
+      if (tick % 4 !== 0) return;
+      const a = tick * 0.21;
+      fire(a, 4.5); fire(a + Math.PI, 4.5);
+    },
+  },
+  {
+    id: 'aimed_burst', name: 'Aimed Burst', duration: 60, cooldown: 80,
+    keywords: ['hunt', 'eye', 'sniper', 'sharp', 'gaze', 'archer', 'watch', 'stalk', 'fang', 'shadow'],
+    update: ({ fire, angle }, tick) => {
+      if (tick % 15 !== 0) return;
+      for (let k = -2; k <= 2; k++) fire(angle + k * 0.12, 8);
+    },
+  },
+  {
+    id: 'summon', name: 'Summon', duration: 1, cooldown: 150,
+    keywords: ['queen', 'mother', 'hive', 'swarm', 'legion', 'horde', 'brood', 'necro', 'summon', 'king', 'lord'],
+    update: ({ world, enemy, spawn }) => {
+      const count = 3 + world.boss.phase;
+      for (let i = 0; i < count; i++) {
+        const a = (Math.PI * 2 * i) / count;
+        const pos = { x: enemy.pos.x + Math.cos(a) * (enemy.radius + 40), y: enemy.pos.y + Math.sin(a) * (enemy.radius + 40) };
+        spawn(pick(world.rng, ['walker', 'walker', 'charger', 'shooter']), pos, 0.8);
+      }
+    },
+  },
+  {
+    // Telegraphed rush that ends in a shockwave
+    id: 'charge_slam', name: 'Charge & Slam', duration: BOSS_CHARGE_TELEGRAPH + BOSS_CHARGE_TIME + 1, cooldown: 90,
+    keywords: ['beast', 'giant', 'golem', 'titan', 'rage', 'charg', 'bull', 'crush', 'stone', 'colossus', 'behemoth'],
+    update: (ctx, tick) => {
+      const { world, enemy, angle, fire } = ctx;
+      if (tick === 0) {
+        enemy.phase = 'telegraph';
+        enemy.phaseTime = BOSS_CHARGE_TELEGRAPH;
+        enemy.aim = { x: Math.cos(angle), y: Math.sin(angle) };
+      } else if (tick < BOSS_CHARGE_TELEGRAPH) {
+        enemy.vel.x *= 0.5; enemy.vel.y *= 0.5;
+      } else if (tick < BOSS_CHARGE_TELEGRAPH + BOSS_CHARGE_TIME) {
+        enemy.phase = 'charging';
+        enemy.vel.x = enemy.aim.x * BOSS_CHARGE_SPEED; enemy.vel.y = enemy.aim.y * BOSS_CHARGE_SPEED;
+      } else {
+        enemy.phase = 'idle';
+        enemy.vel.x = 0; enemy.vel.y = 0;
+        for (let k = 0; k < 24; k++) fire((Math.PI / 12) * k, 4);
+        world.players.forEach(p => {
+          if (!p.dead && !p.downed && Math.hypot(p.pos.x - enemy.pos.x, p.pos.y - enemy.pos.y) < SLAM_RADIUS + p.radius) ctx.hitPlayer(p, 30);
+        });
+      }
+    },
+  },
+  {
+    // Rows of bullets across the target's path, each with one gap to slip through
+    id: 'bullet_wall', name: 'Bullet Wall', duration: 91, cooldown: 100,
+    keywords: ['wall', 'fortress', 'guard', 'iron', 'machine', 'mech', 'sentinel', 'shield', 'gate', 'warden'],
+    update: ({ world, enemy, angle, fire }, tick) => {
+      if (tick % 30 !== 0) return;
+      const across = { x: -Math.sin(angle), y: Math.cos(angle) };
+      const gap = Math.floor(random(world.rng) * 13) - 6;
+      for (let k = -8; k <= 8; k++) {
+        if (Math.abs(k - gap) <= 1) continue;
+        fire(angle, 4, 'enemy_normal', { x: enemy.pos.x + across.x * k * 32, y: enemy.pos.y + across.y * k * 32 });
+      }
+    },
+  },
+];
+
+const patternsById = new Map(BOSS_PATTERNS.map(p => [p.id, p]));
+
+export const getBossPattern = (id: string): BossPattern => patternsById.get(id) || BOSS_PATTERNS[0];
+
+/**
+ * Chooses the fight for a level. Patterns named in `style` lead, then those whose keywords
+ * match words in the boss name or description; the rest follow in an order seeded by that
+ * text and the level number. Each phase adds one more pattern to the rotation.
+ */
+export const createBossState = (levelInfo: LevelInfo | null, levelNumber: number, style: string[] = []): BossState => {
+  const text = levelInfo ? `${levelInfo.bossName} ${levelInfo.bossDescription}` : '';
+  const words = text.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  const matches = (p: BossPattern) => p.keywords.some(k => words.some(w => w.startsWith(k)));
+
+  const rng = createRng(hashSeed(`${text}#${levelNumber}`));
+  const lead = (p: BossPattern) => style.includes(p.id) || matches(p);
+  const rest = BOSS_PATTERNS.filter(p => !lead(p)).map(p => p.id);
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(random(rng) * (i + 1));
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+  const order = [...style, ...BOSS_PATTERNS.filter(p => !style.includes(p.id) && matches(p)).map(p => p.id), ...rest];
+
+  const phaseCount = Math.min(MAX_PHASES, 2 + Math.floor((levelNumber - 1) / 2));
+  return {
+    name: levelInfo?.bossName || 'Boss',
+    patterns: Array.from({ length: phaseCount }, (_, i) => order.slice(0, Math.min(order.length, i + 2))),
+    thresholds: Array.from({ length: phaseCount - 1 }, (_, i) => 1 - (i + 1) / phaseCount),
+    phase: 0,
+    pattern: null,
+    patternTick: 0,
+    next: 0,
+  };
+};
+
+export const getBossPhase = (boss: BossState, hpFraction: number) => boss.thresholds.filter(t => hpFraction <= t).length;
+
+// Starts the next phase: whatever was running stops and the rotation restarts at its new pace.
+export const enterBossPhase = (ctx: EnemyBehaviorContext, phase: number) => {
+  const { world, enemy } = ctx;
+  Object.assign(world.boss, { phase, pattern: null, patternTick: 0, next: 0 });
+  enemy.phase = 'idle';
+  enemy.attackCooldown = PHASE_PAUSE;
+};
+
+export const updateBoss = (ctx: EnemyBehaviorContext) => {
+  const { world, enemy } = ctx;
+  const boss = world.boss;
+  if (enemy.phase !== 'telegraph' && enemy.phase !== 'charging') approach(ctx);
+
+  if (!boss.pattern) {
+    if (enemy.attackCooldown > 0) return;
+    const rotation = boss.patterns[boss.phase] || boss.patterns[0];
+    boss.pattern = rotation[boss.next++ % rotation.length];
+    boss.patternTick = 0;
+  }
+
+  const pattern = getBossPattern(boss.pattern);
+  pattern.update(ctx, boss.patternTick);
+  if (++boss.patternTick >= pattern.duration) {
+    boss.pattern = null;
+    // Later phases rest less between attacks
+    enemy.attackCooldown = Math.round(pattern.cooldown * (1 - 0.15 * boss.phase));
+  }
+};
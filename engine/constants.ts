@@ -0,0 +1,36 @@
+// Shared simulation tuning. The simulation runs at a fixed TICK_RATE, so every
+// per-update value below and every timer (cooldowns, lifetimes, wave cadence) is in ticks.
+export const TICK_RATE = 60;
+export const TICK_MS = 1000 / TICK_RATE;
+// Upper bound on ticks simulated per rendered frame; a backgrounded tab drops the rest.
+export const MAX_CATCH_UP_TICKS = 5;
+
+export const FRICTION = 0.88;
+export const ACCELERATION = 0.6;
+export const MAX_SPEED = 6;
+export const GRID_CELL_SIZE = 200;
+// Bucket size of the per-tick spatial hash (engine/spatialHash.ts)
+export const SPATIAL_CELL_SIZE = 128;
+
+// Dash: a short burst past MAX_SPEED with invulnerability for its duration.
+export const DASH_SPEED = 16;
+export const DASH_DURATION = 10;
+export const DASH_COOLDOWN = 60;
+
+// Melee swing. While a swing is active, enemy bullets inside its arc are reflected.
+export const MELEE_DURATION = 12;
+export const MELEE_COOLDOWN = 40;
+export const REFLECT_SPEED_MULTIPLIER = 1.5;
+export const REFLECT_DAMAGE_MULTIPLIER = 3;
+export const REFLECT_KILL_BONUS = 150;
+
+// Co-op revive: a player at 0 HP goes down while their partner still stands, and bleeds out
+// unless the partner stays within REVIVE_RADIUS for REVIVE_TIME.
+export const BLEED_OUT_TIME = 20 * TICK_RATE;
+export const REVIVE_TIME = 3 * TICK_RATE;
+export const REVIVE_RADIUS = 80;
+export const REVIVE_HP_FRACTION = 0.3;
+
+// Items
+export const ITEM_DROP_CHANCE = 0.06;
+export const BOSS_LOOT_GRACE = 8 * TICK_RATE;
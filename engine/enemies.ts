@@ -0,0 +1,173 @@
+import { Enemy, EnemyArchetype, EnemyBehaviorContext, EnemyType, Rng } from '../types';
+import { random } from './rng';
+import { updateBoss } from './bosses';
+
+export const CHARGE_TELEGRAPH = 45;
+const CHARGE_DURATION = 30;
+const CHARGE_SPEED = 14;
+export const CHARGE_LANE = CHARGE_SPEED * CHARGE_DURATION;
+const SNIPER_AIM_TIME = 70;
+export const SNIPER_LOCK_TIME = 15;   // the sight stops tracking this long before the shot
+export const SNIPER_SIGHT_RANGE = 900;
+const SURFACE_WARNING = 40;
+export const HEAL_RADIUS = 220;
+const BUFF_DURATION = 180;
+export const BUFF_SPEED = 1.3;
+export const BUFF_DAMAGE = 1.25;
+
+// Closing in follows the flow field around obstacles; backing off just moves straight away.
+const chase = ({ force, angle, heading, speed }: EnemyBehaviorContext, direction: number = 1) => {
+  const a = direction > 0 ? heading : angle;
+  force.x += Math.cos(a) * speed * direction;
+  force.y += Math.sin(a) * speed * direction;
+};
+
+// Backs off inside `min` and closes in beyond `max`.
+const keepDistance = (ctx: EnemyBehaviorContext, min: number, max: number) => {
+  if (ctx.dist < min) chase(ctx, -1);
+  else if (ctx.dist > max) chase(ctx);
+};
+
+const touching = (ctx: EnemyBehaviorContext, reach: number = 0) =>
+  ctx.world.players.filter(p => !p.dead && !p.downed && Math.hypot(p.pos.x - ctx.enemy.pos.x, p.pos.y - ctx.enemy.pos.y) < p.radius + ctx.enemy.radius + reach);
+
+// Registry order matters: spawns roll against it with the world rng.
+export const ENEMY_ARCHETYPES: EnemyArchetype[] = [
+  {
+    id: 'walker', name: 'Walker', hp: 50, hpPerLevel: 10, radius: 30, speed: 0.35, saturation: 60, lightness: 40,
+    spawn: { minLevel: 1, weight: 60, weightPerLevel: 0 },
+    update: ctx => chase(ctx),
+  },
+  {
+    id: 'shooter', name: 'Shooter', hp: 50, hpPerLevel: 10, radius: 25, speed: 0.25, saturation: 70, lightness: 45,
+    spawn: { minLevel: 1, weight: 40, weightPerLevel: 0 },
+    update: ctx => {
+      const { world, enemy, dist, angle } = ctx;
+      chase(ctx, dist < 300 ? -1 : 1);
+      if (enemy.attackCooldown <= 0 && dist < 550) {
+        ctx.fire(angle, 7);
+        enemy.attackCooldown = 80 + random(world.rng) * 40;
+      }
+    },
+  },
+  {
+    // Stops, shows where it is going, then rushes in a straight line
+    id: 'charger', name: 'Charger', hp: 70, hpPerLevel: 12, radius: 28, speed: 0.3, hue: 25, saturation: 85, lightness: 45,
+    spawn: { minLevel: 2, weight: 10, weightPerLevel: 5 },
+    update: ctx => {
+      const { enemy, dist, angle } = ctx;
+      if (enemy.phase === 'telegraph') {
+        if (enemy.phaseTime <= 0) { enemy.phase = 'charging'; enemy.phaseTime = CHARGE_DURATION; }
+      } else if (enemy.phase === 'charging') {
+        enemy.vel.x = enemy.aim.x * CHARGE_SPEED; enemy.vel.y = enemy.aim.y * CHARGE_SPEED;
+        const hit = touching(ctx);
+        hit.forEach(p => ctx.hitPlayer(p, 25));
+        if (hit.length > 0 || enemy.phaseTime <= 0) { enemy.phase = 'idle'; enemy.attackCooldown = 120; }
+      } else if (enemy.attackCooldown <= 0 && dist < 350) {
+        enemy.phase = 'telegraph';
+        enemy.phaseTime = CHARGE_TELEGRAPH;
+        enemy.aim = { x: Math.cos(angle), y: Math.sin(angle) };
+      } else {
+        chase(ctx);
+      }
+    },
+  },
+  {
+    id: 'splitter', name: 'Splitter', hp: 80, hpPerLevel: 14, radius: 34, speed: 0.28, hue: 190, saturation: 70, lightness: 40,
+    spawn: { minLevel: 2, weight: 8, weightPerLevel: 4 },
+    update: ctx => chase(ctx),
+    onDeath: ({ world, enemy, spawn }) => {
+      for (let i = 0; i < 3; i++) {
+        const a = (Math.PI * 2 * i) / 3 + random(world.rng);
+        spawn('walker', { x: enemy.pos.x + Math.cos(a) * 25, y: enemy.pos.y + Math.sin(a) * 25 }, 0.55);
+      }
+    },
+  },
+  {
+    // Hangs back and periodically heals and speeds up everything around it
+    id: 'healer', name: 'Healer', hp: 60, hpPerLevel: 10, radius: 24, speed: 0.3, hue: 130, saturation: 70, lightness: 45,
+    spawn: { minLevel: 3, weight: 5, weightPerLevel: 2 },
+    update: ctx => {
+      const { world, enemy } = ctx;
+      keepDistance(ctx, 250, 400);
+      if (enemy.attackCooldown > 0) return;
+      world.enemies.forEach(other => {
+        if (other.dead || other === enemy || Math.hypot(other.pos.x - enemy.pos.x, other.pos.y - enemy.pos.y) > HEAL_RADIUS) return;
+        other.hp = Math.min(other.maxHp, other.hp + other.maxHp * 0.15);
+        other.buffTime = BUFF_DURATION;
+      });
+      enemy.attackCooldown = 90;
+    },
+  },
+  {
+    // Paints its target with a laser sight, locks, then fires one fast heavy shot
+    id: 'sniper', name: 'Sniper', hp: 40, hpPerLevel: 8, radius: 22, speed: 0.22, hue: 280, saturation: 60, lightness: 45,
+    spawn: { minLevel: 3, weight: 6, weightPerLevel: 3 },
+    update: ctx => {
+      const { enemy, dist, angle } = ctx;
+      if (enemy.phase === 'aiming') {
+        if (enemy.phaseTime > SNIPER_LOCK_TIME) enemy.aim = { x: Math.cos(angle), y: Math.sin(angle) };
+        if (enemy.phaseTime <= 0) {
+          ctx.fire(Math.atan2(enemy.aim.y, enemy.aim.x), 16, 'enemy_sniper');
+          enemy.phase = 'idle';
+          enemy.attackCooldown = 150;
+        }
+        return;
+      }
+      keepDistance(ctx, 450, 700);
+      if (enemy.attackCooldown <= 0 && dist < SNIPER_SIGHT_RANGE) {
+        enemy.phase = 'aiming';
+        enemy.phaseTime = SNIPER_AIM_TIME;
+        enemy.aim = { x: Math.cos(angle), y: Math.sin(angle) };
+      }
+    },
+  },
+  {
+    // Tunnels to a player untouchable, surfaces under them after a warning, then fights above ground for a while
+    id: 'burrower', name: 'Burrower', hp: 60, hpPerLevel: 12, radius: 26, speed: 0.4, hue: 35, saturation: 55, lightness: 35,
+    initialPhase: 'burrowed',
+    spawn: { minLevel: 4, weight: 6, weightPerLevel: 3 },
+    update: ctx => {
+      const { enemy, dist } = ctx;
+      if (enemy.phase === 'burrowed') {
+        chase(ctx);
+        if (dist < 20) { enemy.phase = 'surfacing'; enemy.phaseTime = SURFACE_WARNING; }
+      } else if (enemy.phase === 'surfacing') {
+        enemy.vel.x = 0; enemy.vel.y = 0;
+        if (enemy.phaseTime <= 0) {
+          touching(ctx, 30).forEach(p => ctx.hitPlayer(p, 20));
+          enemy.phase = 'idle';
+          enemy.phaseTime = 240;
+        }
+      } else {
+        chase(ctx, 0.5);
+        if (enemy.phaseTime <= 0) enemy.phase = 'burrowed';
+      }
+    },
+  },
+  {
+    // Phases and attack patterns live in engine/bosses.ts
+    id: 'boss', name: 'Boss', hp: 0, hpPerLevel: 1500, radius: 80, speed: 0.2, saturation: 0, lightness: 0,
+    update: updateBoss,
+  },
+];
+
+const archetypesById = new Map(ENEMY_ARCHETYPES.map(a => [a.id, a]));
+
+export const getEnemyArchetype = (id: EnemyType): EnemyArchetype => archetypesById.get(id) || archetypesById.get('walker')!;
+
+export const getSpawnWeight = (archetype: EnemyArchetype, levelNumber: number): number => {
+  const { spawn } = archetype;
+  if (!spawn || levelNumber < spawn.minLevel) return 0;
+  return spawn.weight + spawn.weightPerLevel * (levelNumber - spawn.minLevel);
+};
+
+// `mix` scales each archetype's weight for the level (see engine/levelParams.ts).
+export const rollEnemyType = (rng: Rng, levelNumber: number, mix: Record<EnemyType, number> = {}): EnemyType => {
+  const weighted = ENEMY_ARCHETYPES.map(a => [a.id, getSpawnWeight(a, levelNumber) * (mix[a.id] ?? 1)] as const).filter(([, w]) => w > 0);
+  let roll = random(rng) * weighted.reduce((sum, [, w]) => sum + w, 0);
+  return weighted.find(([, w]) => (roll -= w) < 0)?.[0] || 'walker';
+};
+
+// Burrowed enemies cannot be shot, swung at, aimed at or homed in on.
+export const isTargetable = (e: Enemy) => !e.dead && e.phase !== 'burrowed';
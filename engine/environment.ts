@@ -0,0 +1,283 @@
+import { Biome, Entity, EnvironmentObject, LandmarkType, TerrainSource, TerrainType } from '../types';
+import { GRID_CELL_SIZE } from './constants';
+import { getBiome } from './biomes';
+import { fractalNoise, hash2, valueNoise } from './noise';
+import { MAX_HAZARD_COVERAGE } from './levelParams';
+
+// --- PROCEDURAL GENERATION ---
+// The world is generated a chunk of CHUNK_CELLS x CHUNK_CELLS grid cells at a time, from the
+// seed and level params alone, and chunks are cached: collision, bullets, navigation and the renderer
+// all ask about the same few chunks every tick.
+const CHUNK_CELLS = 8;
+const CHUNK_CACHE_LIMIT = 512;
+const TERRAIN_SCALE = 0.18;     // noise frequency per grid cell; patches span a few cells
+const TERRAIN_MIX_SCALE = 0.07; // picks between a biome's ground types, over wider areas
+const LANDMARK_CHANCE = 0.12;   // per chunk
+const SPRING_CHANCE = 0.012;    // per open cell, in every biome
+const COVER_HP = 150;
+const ARENA_RADIUS = 320;
+const ARENA_PILLARS = 12;
+
+// Salts, so each roll reads its own noise
+const SALT_TERRAIN_MIX = 0x2C1B3C6D;
+const SALT_JITTER_X = 0x297A2D39;
+const SALT_JITTER_Y = 0x6B43A9B5;
+const SALT_SIZE = 0x1B873593;
+const SALT_LANDMARK = 0x5BD1E995;
+const SALT_SPRING = 0x4CF5AD43;
+
+const LANDMARKS: { type: LandmarkType; weight: number; clear: number; size: number; color: string }[] = [
+  { type: 'shrine', weight: 55, clear: 1, size: 60, color: '#38bdf8' },
+  { type: 'arena', weight: 35, clear: 2, size: ARENA_RADIUS, color: '#94a3b8' },
+  { type: 'altar', weight: 10, clear: 1, size: 90, color: '#ef4444' },
+];
+
+interface Chunk {
+  ground: (TerrainType | null)[];    // one per cell, row by row
+  objects: EnvironmentObject[][];    // anchored in each cell
+}
+
+const chunkCache = new Map<string, Chunk>();
+let lastKey = '';
+let lastChunk: Chunk | null = null;
+
+const isSpawnArea = (gx: number, gy: number) => Math.abs(gx) < 2 && Math.abs(gy) < 2;
+
+// Fractal noise bunches up around 0.5; this spreads it to roughly uniform, so coverage
+// reads as the share of cells covered.
+const spread = (n: number) => 1 / (1 + Math.exp(-12 * (n - 0.5)));
+
+const pickVariant = <T>(items: T[], roll: number): T => items[Math.floor(roll * items.length) % items.length];
+
+const generateCell = (gx: number, gy: number, seed: number, biome: Biome, coverage: number, chunk: Chunk, index: number) => {
+    if (isSpawnArea(gx, gy)) return;
+
+    const n = spread(fractalNoise(gx * TERRAIN_SCALE, gy * TERRAIN_SCALE, seed));
+    if (biome.terrain.length > 0 && n > 1 - coverage) {
+        chunk.ground[index] = pickVariant(biome.terrain, valueNoise(gx * TERRAIN_MIX_SCALE, gy * TERRAIN_MIX_SCALE, seed ^ SALT_TERRAIN_MIX));
+        return;
+    }
+    if (hash2(gx, gy, seed ^ SALT_SPRING) < SPRING_CHANCE) {
+        chunk.ground[index] = 'spring';
+        return;
+    }
+
+    const { palette } = biome;
+    const val = hash2(gx, gy, seed);
+    const size = hash2(gx, gy, seed ^ SALT_SIZE);
+    const pos = {
+        x: gx * GRID_CELL_SIZE + GRID_CELL_SIZE / 2 + (hash2(gx, gy, seed ^ SALT_JITTER_X) - 0.5) * GRID_CELL_SIZE * 0.8,
+        y: gy * GRID_CELL_SIZE + GRID_CELL_SIZE / 2 + (hash2(gx, gy, seed ^ SALT_JITTER_Y) - 0.5) * GRID_CELL_SIZE * 0.8,
+    };
+
+    let roll = val;
+    if (roll < biome.buildingDensity) {
+        const isWide = size > 0.7;
+        chunk.objects[index].push({
+            id: `b-${gx}-${gy}`, type: 'building', pos,
+            size: { x: isWide ? 180 : 120, y: 100 + size * 50 },
+            color: pickVariant(palette.buildings, roll / biome.buildingDensity)
+        });
+        return;
+    }
+    roll -= biome.buildingDensity;
+    if (roll < biome.ruinDensity) {
+        chunk.objects[index].push({
+            id: `r-${gx}-${gy}`, type: 'ruin', pos,
+            size: { x: 60 + size * 80, y: 40 + (1 - size) * 50 },
+            color: palette.ruin
+        });
+        return;
+    }
+    roll -= biome.ruinDensity;
+    if (roll < biome.coverDensity) {
+        // A low wall, lying either way
+        const long = 70 + size * 40;
+        chunk.objects[index].push({
+            id: `c-${gx}-${gy}`, type: 'cover', pos,
+            size: size > 0.5 ? { x: long, y: 26 } : { x: 26, y: long },
+            color: palette.cover, hp: COVER_HP
+        });
+        return;
+    }
+    roll -= biome.coverDensity;
+    if (roll < biome.treeDensity) {
+        chunk.objects[index].push({
+            id: `t-${gx}-${gy}`, type: 'tree', pos,
+            size: { x: 40 + size * 40, y: 0 },
+            color: pickVariant(palette.trees, roll / biome.treeDensity)
+        });
+    }
+};
+
+// Rare set pieces, at most one per chunk, in the middle of a patch cleared for them.
+const placeLandmark = (cx: number, cy: number, seed: number, biome: Biome, chunk: Chunk) => {
+    if (hash2(cx, cy, seed ^ SALT_LANDMARK) >= LANDMARK_CHANCE) return;
+    let roll = hash2(cy, cx, seed ^ SALT_LANDMARK) * LANDMARKS.reduce((sum, l) => sum + l.weight, 0);
+    const landmark = LANDMARKS.find(l => (roll -= l.weight) < 0) || LANDMARKS[0];
+
+    const mid = Math.floor(CHUNK_CELLS / 2);
+    const gx = cx * CHUNK_CELLS + mid;
+    const gy = cy * CHUNK_CELLS + mid;
+    for (let ly = mid - landmark.clear; ly <= mid + landmark.clear; ly++) {
+        for (let lx = mid - landmark.clear; lx <= mid + landmark.clear; lx++) {
+            chunk.ground[ly * CHUNK_CELLS + lx] = null;
+            chunk.objects[ly * CHUNK_CELLS + lx] = [];
+        }
+    }
+
+    const centre = { x: gx * GRID_CELL_SIZE + GRID_CELL_SIZE / 2, y: gy * GRID_CELL_SIZE + GRID_CELL_SIZE / 2 };
+    chunk.objects[mid * CHUNK_CELLS + mid].push({
+        id: `l-${gx}-${gy}`, type: 'landmark', landmark: landmark.type, pos: centre,
+        size: { x: landmark.size, y: landmark.size }, color: landmark.color
+    });
+
+    if (landmark.type !== 'arena') return;
+    // A ring of broken pillars with three ways in
+    for (let i = 0; i < ARENA_PILLARS; i++) {
+        if (i % 4 === 0) continue;
+        const a = (Math.PI * 2 * i) / ARENA_PILLARS;
+        const pos = { x: centre.x + Math.cos(a) * ARENA_RADIUS, y: centre.y + Math.sin(a) * ARENA_RADIUS };
+        // Anchored in the cell the pillar stands in, which is where lookups expect it
+        const lx = Math.floor(pos.x / GRID_CELL_SIZE) - cx * CHUNK_CELLS;
+        const ly = Math.floor(pos.y / GRID_CELL_SIZE) - cy * CHUNK_CELLS;
+        chunk.objects[ly * CHUNK_CELLS + lx].push({
+            id: `r-${gx}-${gy}-${i}`, type: 'ruin', pos, size: { x: 44, y: 44 }, color: biome.palette.ruin
+        });
+    }
+};
+
+const generateChunk = (cx: number, cy: number, source: TerrainSource): Chunk => {
+    const biome = getBiome(source.params.biome);
+    const coverage = Math.min(MAX_HAZARD_COVERAGE, biome.terrainCoverage * source.params.hazardDensity);
+    const chunk: Chunk = {
+        ground: new Array(CHUNK_CELLS * CHUNK_CELLS).fill(null),
+        objects: Array.from({ length: CHUNK_CELLS * CHUNK_CELLS }, () => []),
+    };
+    for (let ly = 0; ly < CHUNK_CELLS; ly++) {
+        for (let lx = 0; lx < CHUNK_CELLS; lx++) {
+            generateCell(cx * CHUNK_CELLS + lx, cy * CHUNK_CELLS + ly, source.seed, biome, coverage, chunk, ly * CHUNK_CELLS + lx);
+        }
+    }
+    placeLandmark(cx, cy, source.seed, biome, chunk);
+    return chunk;
+};
+
+const getChunk = (cx: number, cy: number, source: TerrainSource): Chunk => {
+    const key = `${source.seed}:${source.params.biome}:${source.params.hazardDensity}:${cx}:${cy}`;
+    if (key === lastKey && lastChunk) return lastChunk;
+    let chunk = chunkCache.get(key);
+    if (!chunk) {
+        chunk = generateChunk(cx, cy, source);
+        // Oldest first: Maps iterate in insertion order
+        if (chunkCache.size >= CHUNK_CACHE_LIMIT) chunkCache.delete(chunkCache.keys().next().value);
+        chunkCache.set(key, chunk);
+    }
+    lastKey = key;
+    lastChunk = chunk;
+    return chunk;
+};
+
+const cellIndex = (gx: number, gy: number) =>
+    (gy - Math.floor(gy / CHUNK_CELLS) * CHUNK_CELLS) * CHUNK_CELLS + (gx - Math.floor(gx / CHUNK_CELLS) * CHUNK_CELLS);
+
+// Everything anchored in grid cell (gx, gy).
+export const getEnvironmentAt = (gx: number, gy: number, source: TerrainSource): EnvironmentObject[] =>
+    getChunk(Math.floor(gx / CHUNK_CELLS), Math.floor(gy / CHUNK_CELLS), source).objects[cellIndex(gx, gy)];
+
+export const getTerrainAt = (x: number, y: number, source: TerrainSource): TerrainType | null => {
+    const gx = Math.floor(x / GRID_CELL_SIZE);
+    const gy = Math.floor(y / GRID_CELL_SIZE);
+    return getChunk(Math.floor(gx / CHUNK_CELLS), Math.floor(gy / CHUNK_CELLS), source).ground[cellIndex(gx, gy)];
+};
+
+export const getEnvironmentInRect = (x: number, y: number, w: number, h: number, source: TerrainSource): EnvironmentObject[] => {
+    const startX = Math.floor((x - w/2) / GRID_CELL_SIZE);
+    const endX = Math.floor((x + w/2) / GRID_CELL_SIZE);
+    const startY = Math.floor((y - h/2) / GRID_CELL_SIZE);
+    const endY = Math.floor((y + h/2) / GRID_CELL_SIZE);
+
+    const objects: EnvironmentObject[] = [];
+    for (let gx = startX - 1; gx <= endX + 1; gx++) {
+        for (let gy = startY - 1; gy <= endY + 1; gy++) {
+            for (const obj of getEnvironmentAt(gx, gy, source)) objects.push(obj);
+        }
+    }
+    return objects;
+};
+
+// Ground-covered cells overlapping a rect, for drawing.
+export const getTerrainInRect = (x: number, y: number, w: number, h: number, source: TerrainSource): { gx: number; gy: number; type: TerrainType }[] => {
+    const cells: { gx: number; gy: number; type: TerrainType }[] = [];
+    for (let gx = Math.floor((x - w/2) / GRID_CELL_SIZE); gx <= Math.floor((x + w/2) / GRID_CELL_SIZE); gx++) {
+        for (let gy = Math.floor((y - h/2) / GRID_CELL_SIZE); gy <= Math.floor((y + h/2) / GRID_CELL_SIZE); gy++) {
+            const type = getChunk(Math.floor(gx / CHUNK_CELLS), Math.floor(gy / CHUNK_CELLS), source).ground[cellIndex(gx, gy)];
+            if (type) cells.push({ gx, gy, type });
+        }
+    }
+    return cells;
+};
+
+export const isCoverBroken = (env: EnvironmentObject, source: TerrainSource) =>
+  env.type === 'cover' && (source.coverDamage[env.id] || 0) >= (env.hp || 0);
+
+// Buildings, ruins and unbroken cover are solid boxes; trees are solid circles; landmarks can be walked over.
+const isBox = (env: EnvironmentObject, source: TerrainSource) =>
+  env.type === 'building' || env.type === 'ruin' || (env.type === 'cover' && !isCoverBroken(env, source));
+
+export const checkEnvironmentCollision = (entity: Entity, source: TerrainSource) => {
+  const nearby = getEnvironmentInRect(entity.pos.x, entity.pos.y, 300, 300, source);
+  for (const env of nearby) {
+      if (env.type === 'tree') {
+          const dx = entity.pos.x - env.pos.x;
+          const dy = entity.pos.y - env.pos.y;
+          const dist = Math.hypot(dx, dy);
+          const minDist = env.size.x + entity.radius;
+          if (dist < minDist) {
+              const angle = Math.atan2(dy, dx);
+              const push = minDist - dist;
+              entity.pos.x += Math.cos(angle) * push;
+              entity.pos.y += Math.sin(angle) * push;
+              entity.vel.x *= 0.8; entity.vel.y *= 0.8;
+          }
+      } else if (isBox(env, source)) {
+          const halfW = env.size.x / 2;
+          const halfH = env.size.y / 2;
+          const clampX = Math.max(env.pos.x - halfW, Math.min(entity.pos.x, env.pos.x + halfW));
+          const clampY = Math.max(env.pos.y - halfH, Math.min(entity.pos.y, env.pos.y + halfH));
+          const dx = entity.pos.x - clampX;
+          const dy = entity.pos.y - clampY;
+          const dist = Math.hypot(dx, dy);
+          if (dist < entity.radius) {
+              const angle = Math.atan2(dy, dx);
+              const push = entity.radius - dist;
+              entity.pos.x += Math.cos(angle) * push;
+              entity.pos.y += Math.sin(angle) * push;
+              entity.vel.x *= 0.5; entity.vel.y *= 0.5;
+          }
+      }
+  }
+};
+
+// The box a bullet at this point has hit, if any; a point can only fall inside one anchored in a neighbouring cell.
+export const getSolidAt = (x: number, y: number, source: TerrainSource): EnvironmentObject | null => {
+  for (const env of getEnvironmentInRect(x, y, 0, 0, source)) {
+      if (!isBox(env, source)) continue;
+      const halfW = env.size.x / 2;
+      const halfH = env.size.y / 2;
+      if (x > env.pos.x - halfW && x < env.pos.x + halfW &&
+          y > env.pos.y - halfH && y < env.pos.y + halfH) {
+          return env;
+      }
+  }
+  return null;
+};
+
+export const isInsideBuilding = (x: number, y: number, source: TerrainSource): boolean => getSolidAt(x, y, source) !== null;
+
+// Everything that blocks movement at a point with `clearance` of room kept around it, broken
+// cover included: navigation caches this and checks cover again when it reads the cache.
+export const getBlockersAt = (x: number, y: number, clearance: number, source: TerrainSource): EnvironmentObject[] =>
+  getEnvironmentInRect(x, y, 0, 0, source).filter(env => env.type === 'tree'
+    ? Math.hypot(x - env.pos.x, y - env.pos.y) < env.size.x + clearance
+    : env.type !== 'landmark' && Math.abs(x - env.pos.x) < env.size.x / 2 + clearance && Math.abs(y - env.pos.y) < env.size.y / 2 + clearance);
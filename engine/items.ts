@@ -0,0 +1,101 @@
+import { Enemy, GameWorld, ItemDefinition, ItemHookContext, ItemRarity, ItemStat, Player, Rng } from '../types';
+import { random, pick } from './rng';
+import { isTargetable } from './enemies';
+
+const nearestEnemies = (world: GameWorld, target: Enemy, range: number) =>
+  world.enemies.filter(e => isTargetable(e) && e !== target && Math.hypot(e.pos.x - target.pos.x, e.pos.y - target.pos.y) < range);
+
+// Registry order matters: drops pick from it with the world rng.
+export const ITEMS: ItemDefinition[] = [
+  {
+    id: 'syringe', name: 'Syringe', icon: '💉', rarity: 'common',
+    description: '+15% fire rate per stack.',
+    stats: { fireRate: 0.15 },
+  },
+  {
+    id: 'whetstone', name: 'Whetstone', icon: '🗡️', rarity: 'common',
+    description: '+12% damage per stack.',
+    stats: { damage: 0.12 },
+  },
+  {
+    id: 'hoof', name: 'Swift Hoof', icon: '🐐', rarity: 'common',
+    description: '+10% movement speed per stack.',
+    stats: { moveSpeed: 0.1 },
+  },
+  {
+    id: 'tooth', name: 'Monster Tooth', icon: '🦷', rarity: 'common',
+    description: 'Kills heal 8 HP per stack.',
+    onKill: ({ owner, stacks }) => {
+      owner.hp = Math.min(owner.maxHp, owner.hp + 8 * stacks);
+    },
+  },
+  {
+    id: 'ukulele', name: 'Ukulele', icon: '🎸', rarity: 'uncommon',
+    description: '20% chance per stack on hit to zap a nearby enemy for half the damage.',
+    onHit: ({ world, target, damage, stacks, dealDamage }) => {
+      if (random(world.rng) >= Math.min(1, 0.2 * stacks)) return;
+      const next = nearestEnemies(world, target, 250)[0];
+      if (next) dealDamage(next, damage * 0.5);
+    },
+  },
+  {
+    id: 'gasoline', name: 'Gasoline', icon: '⛽', rarity: 'uncommon',
+    description: 'Kills explode for 30 damage per stack.',
+    onKill: ({ world, target, stacks, dealDamage }) => {
+      nearestEnemies(world, target, 120).forEach(e => dealDamage(e, 30 * stacks));
+    },
+  },
+  {
+    id: 'behemoth', name: 'Behemoth', icon: '💥', rarity: 'legendary',
+    description: 'Hits splash 60% damage around the target; radius grows per stack.',
+    onHit: ({ world, target, damage, stacks, dealDamage }) => {
+      nearestEnemies(world, target, 40 + 20 * stacks).forEach(e => dealDamage(e, damage * 0.6));
+    },
+  },
+  {
+    id: 'titan_heart', name: 'Titan Heart', icon: '❤️', rarity: 'boss',
+    description: '+50 max HP per stack.',
+    stats: { maxHp: 50 },
+  },
+];
+
+const itemsById = new Map(ITEMS.map(item => [item.id, item]));
+
+export const getItem = (id: string): ItemDefinition | undefined => itemsById.get(id);
+
+export const RARITY_COLORS: Record<ItemRarity, string> = {
+  common: '#e5e7eb',
+  uncommon: '#4ade80',
+  legendary: '#f87171',
+  boss: '#facc15',
+};
+
+const DROP_WEIGHTS: [ItemRarity, number][] = [['common', 75], ['uncommon', 22], ['legendary', 3]];
+
+export const rollItem = (rng: Rng, rarity?: ItemRarity): string => {
+  if (!rarity) {
+    let roll = random(rng) * DROP_WEIGHTS.reduce((sum, [, w]) => sum + w, 0);
+    rarity = DROP_WEIGHTS.find(([, w]) => (roll -= w) < 0)?.[0] || 'common';
+  }
+  const wanted = rarity;
+  return pick(rng, ITEMS.filter(item => item.rarity === wanted)).id;
+};
+
+// Sum of a stat over every stack the player holds.
+export const getItemStat = (p: Player, stat: ItemStat): number => {
+  let total = 0;
+  for (const id of Object.keys(p.items)) total += (getItem(id)?.stats?.[stat] || 0) * p.items[id];
+  return total;
+};
+
+export const addItem = (p: Player, id: string, stacks: number = 1) => {
+  p.items[id] = (p.items[id] || 0) + stacks;
+  const maxHp = (getItem(id)?.stats?.maxHp || 0) * stacks;
+  p.maxHp += maxHp;
+  p.hp += maxHp;
+};
+
+// Runs one hook of every item the owner holds, in pickup order.
+export const triggerItems = (hook: 'onHit' | 'onKill', ctx: Omit<ItemHookContext, 'stacks'>) => {
+  for (const id of Object.keys(ctx.owner.items)) getItem(id)?.[hook]?.({ ...ctx, stacks: ctx.owner.items[id] });
+};
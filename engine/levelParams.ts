@@ -0,0 +1,84 @@
+import { LevelInfo, LevelParams } from '../types';
+import { BIOMES, getBiome, pickBiome } from './biomes';
+import { ENEMY_ARCHETYPES } from './enemies';
+import { BOSS_PATTERNS } from './bosses';
+
+// Every knob a level provider can turn, and how far. Anything out of range is clamped, anything
+// malformed falls back to the default, so no response can make a level unwinnable.
+export const LEVEL_PARAM_LIMITS = {
+  spawnRate: { min: 0.6, max: 1.6 },
+  bossHpMultiplier: { min: 0.6, max: 1.5 },
+  hazardDensity: { min: 0, max: 1.5 },
+  enemyWeight: { min: 0, max: 3 },
+};
+export const MAX_BOSS_STYLE = 3;
+export const MAX_HAZARD_COVERAGE = 0.35;   // share of ground cells; the rest stays walkable
+
+// Archetypes a level can weight; the boss is not one of them.
+export const getMixableEnemies = () => ENEMY_ARCHETYPES.filter(a => a.spawn).map(a => a.id);
+
+export const getDefaultLevelParams = (levelInfo: LevelInfo | null): LevelParams => ({
+  biome: pickBiome(levelInfo),
+  enemyMix: {},
+  spawnRate: 1,
+  bossHpMultiplier: 1,
+  bossStyle: [],
+  hazardDensity: 1,
+});
+
+const clampNumber = (value: unknown, limits: { min: number; max: number }, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(limits.max, Math.max(limits.min, value)) : fallback;
+
+/**
+ * Validates raw knobs (from a model, a save file or a partner) field by field. Unknown biome,
+ * archetype and pattern ids are dropped, numbers are clamped, and a mix that would stop
+ * enemies spawning altogether is thrown away.
+ */
+export const sanitizeLevelParams = (raw: unknown, levelInfo: LevelInfo | null): LevelParams => {
+  const params = getDefaultLevelParams(levelInfo);
+  if (!raw || typeof raw !== 'object') return params;
+  const input = raw as Record<string, unknown>;
+
+  if (typeof input.biome === 'string' && BIOMES.some(b => b.id === input.biome)) params.biome = input.biome;
+
+  if (input.enemyMix && typeof input.enemyMix === 'object') {
+    const mix: Record<string, number> = {};
+    getMixableEnemies().forEach(id => {
+      const weight = (input.enemyMix as Record<string, unknown>)[id];
+      if (weight !== undefined) mix[id] = clampNumber(weight, LEVEL_PARAM_LIMITS.enemyWeight, 1);
+    });
+    // Walkers and shooters are always in the pool, so they decide whether anything spawns
+    if ((mix.walker ?? 1) > 0 || (mix.shooter ?? 1) > 0) params.enemyMix = mix;
+  }
+
+  params.spawnRate = clampNumber(input.spawnRate, LEVEL_PARAM_LIMITS.spawnRate, params.spawnRate);
+  params.bossHpMultiplier = clampNumber(input.bossHpMultiplier, LEVEL_PARAM_LIMITS.bossHpMultiplier, params.bossHpMultiplier);
+  params.hazardDensity = clampNumber(input.hazardDensity, LEVEL_PARAM_LIMITS.hazardDensity, params.hazardDensity);
+
+  if (Array.isArray(input.bossStyle)) {
+    const known = input.bossStyle.filter((id): id is string => typeof id === 'string' && BOSS_PATTERNS.some(p => p.id === id));
+    params.bossStyle = Array.from(new Set(known)).slice(0, MAX_BOSS_STYLE);
+  }
+  return params;
+};
+
+// What a level actually plays with, whatever its info carries (old saves and replays carry nothing).
+export const resolveLevelParams = (levelInfo: LevelInfo | null): LevelParams => sanitizeLevelParams(levelInfo?.params, levelInfo);
+
+// Short tags for the level briefing, for whichever knobs are noticeably off their defaults.
+export const describeLevelParams = (params: LevelParams): string[] => {
+  const tags = [getBiome(params.biome).name];
+  if (params.spawnRate >= 1.2) tags.push('Swarming');
+  else if (params.spawnRate <= 0.8) tags.push('Sparse');
+  ENEMY_ARCHETYPES.forEach(a => {
+    const weight = params.enemyMix[a.id];
+    if (weight === undefined) return;
+    if (weight >= 1.5) tags.push(`More ${a.name}s`);
+    else if (weight === 0) tags.push(`No ${a.name}s`);
+  });
+  if (params.bossHpMultiplier >= 1.2) tags.push('Hardened Boss');
+  else if (params.bossHpMultiplier <= 0.8) tags.push('Weakened Boss');
+  if (params.hazardDensity >= 1.25) tags.push('Treacherous Ground');
+  else if (params.hazardDensity <= 0.5) tags.push('Firm Ground');
+  return tags;
+};
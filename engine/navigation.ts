@@ -0,0 +1,129 @@
+import { EnvironmentObject, GameWorld, NavField, NavState, TerrainSource, Vector2 } from '../types';
+import { GRID_CELL_SIZE } from './constants';
+import { getBlockersAt, isCoverBroken } from './environment';
+
+// Each procedural grid cell is split 4x4 so paths fit between the trees and buildings inside it.
+export const NAV_CELL_SIZE = GRID_CELL_SIZE / 4;
+const NAV_RADIUS = 24;          // cells from the players' centre to the edge of the field
+const NAV_BUDGET = 700;         // cells expanded per tick; a full field takes about four ticks
+const NAV_REBUILD_TICKS = 20;
+const NAV_CLEARANCE = 18;       // how far paths keep from obstacle edges
+
+const UNREACHED = -1;
+const BLOCKED = -2;
+
+// Obstacles only depend on the seed and level params, so what blocks each cell is cached across
+// ticks and worlds: true for something permanent, otherwise the cover (maybe none) in the way.
+const blockedCache = new Map<string, true | EnvironmentObject[]>();
+const BLOCKED_CACHE_LIMIT = 200000;
+
+const isCellBlocked = (cx: number, cy: number, source: TerrainSource): boolean => {
+  const key = `${source.seed}:${source.params.biome}:${source.params.hazardDensity}:${cx}:${cy}`;
+  let blockers = blockedCache.get(key);
+  if (blockers === undefined) {
+    const found = getBlockersAt((cx + 0.5) * NAV_CELL_SIZE, (cy + 0.5) * NAV_CELL_SIZE, NAV_CLEARANCE, source);
+    blockers = found.some(env => env.type !== 'cover') ? true : found;
+    if (blockedCache.size >= BLOCKED_CACHE_LIMIT) blockedCache.clear();
+    blockedCache.set(key, blockers);
+  }
+  return blockers === true || blockers.some(cover => !isCoverBroken(cover, source));
+};
+
+export const createNavState = (): NavState => ({ field: null, build: null, nextBuild: 0 });
+
+// Seeds a breadth-first search from every standing player's cell; enemies leave the downed alone.
+const startBuild = (world: GameWorld): NavState['build'] => {
+  const standing = world.players.filter(p => !p.dead && !p.downed);
+  if (standing.length === 0) return null;
+  const centre = standing.reduce((acc, p) => ({ x: acc.x + p.pos.x / standing.length, y: acc.y + p.pos.y / standing.length }), { x: 0, y: 0 });
+  const size = NAV_RADIUS * 2 + 1;
+  const field: NavField = {
+    originX: Math.floor(centre.x / NAV_CELL_SIZE) - NAV_RADIUS,
+    originY: Math.floor(centre.y / NAV_CELL_SIZE) - NAV_RADIUS,
+    size,
+    dist: new Array(size * size).fill(UNREACHED),
+  };
+  const queue: number[] = [];
+  standing.forEach(p => {
+    const cx = Math.floor(p.pos.x / NAV_CELL_SIZE) - field.originX;
+    const cy = Math.floor(p.pos.y / NAV_CELL_SIZE) - field.originY;
+    if (cx < 0 || cy < 0 || cx >= size || cy >= size) return;
+    const i = cy * size + cx;
+    if (field.dist[i] === 0) return;
+    field.dist[i] = 0;
+    queue.push(i);
+  });
+  return { field, queue, head: 0 };
+};
+
+/**
+ * Advances the flow field by at most NAV_BUDGET cells. Enemies keep steering by the last
+ * finished field while the next one is built, so the cost per tick stays flat however many
+ * enemies there are. Lives in the world (as plain data) so replays and keyframes stay exact.
+ */
+export const updateNavigation = (world: GameWorld) => {
+  const nav = world.nav;
+  if (!nav.build && world.waveTimer >= nav.nextBuild) {
+    nav.build = startBuild(world);
+    nav.nextBuild = world.waveTimer + NAV_REBUILD_TICKS;
+  }
+  const build = nav.build;
+  if (!build) return;
+
+  const { field, queue } = build;
+  const { size, dist } = field;
+  for (let budget = NAV_BUDGET; budget > 0 && build.head < queue.length; budget--) {
+    const i = queue[build.head++];
+    const cx = i % size;
+    const cy = (i - cx) / size;
+    for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+      const nx = cx + dx;
+      const ny = cy + dy;
+      if (nx < 0 || ny < 0 || nx >= size || ny >= size) continue;
+      const n = ny * size + nx;
+      if (dist[n] !== UNREACHED) continue;
+      if (isCellBlocked(field.originX + nx, field.originY + ny, world)) { dist[n] = BLOCKED; continue; }
+      dist[n] = dist[i] + 1;
+      queue.push(n);
+    }
+  }
+  if (build.head >= queue.length) {
+    nav.field = field;
+    nav.build = null;
+  }
+};
+
+/**
+ * Direction to walk from `pos` towards the nearest player around obstacles, or null when
+ * the field has nothing better than a straight line (no field yet, off the field, next to a player).
+ */
+export const getFlowHeading = (world: GameWorld, pos: Vector2): number | null => {
+  const field = world.nav.field;
+  if (!field) return null;
+  const { size, dist } = field;
+  const cx = Math.floor(pos.x / NAV_CELL_SIZE) - field.originX;
+  const cy = Math.floor(pos.y / NAV_CELL_SIZE) - field.originY;
+  if (cx < 0 || cy < 0 || cx >= size || cy >= size) return null;
+
+  const own = dist[cy * size + cx];
+  if (own >= 0 && own <= 1) return null;
+  // Pushed into a blocked cell by collision: any reachable neighbour is better
+  let best = own >= 0 ? own : Infinity;
+  let bestX = 0;
+  let bestY = 0;
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const nx = cx + dx;
+      const ny = cy + dy;
+      if ((dx === 0 && dy === 0) || nx < 0 || ny < 0 || nx >= size || ny >= size) continue;
+      const d = dist[ny * size + nx];
+      if (d < 0) continue;
+      // No cutting corners past an obstacle
+      if (dx !== 0 && dy !== 0 && (dist[cy * size + nx] < 0 || dist[ny * size + cx] < 0)) continue;
+      if (d < best) { best = d; bestX = nx; bestY = ny; }
+    }
+  }
+  if (best === Infinity || best === own) return null;
+  const target = { x: (field.originX + bestX + 0.5) * NAV_CELL_SIZE, y: (field.originY + bestY + 0.5) * NAV_CELL_SIZE };
+  return Math.atan2(target.y - pos.y, target.x - pos.x);
+};
@@ -0,0 +1,36 @@
+// Seeded lattice noise for world generation. Pure functions of their inputs, so any cell
+// can be generated on its own, in any order, and always comes out the same.
+
+// Integer hash of a lattice point, as a float in [0, 1).
+export const hash2 = (x: number, y: number, seed: number): number => {
+  let h = Math.imul(x | 0, 0x27D4EB2D) ^ Math.imul(y | 0, 0x165667B1) ^ Math.imul(seed | 0, 0x9E3779B1);
+  h = Math.imul(h ^ (h >>> 15), 0x85EBCA6B);
+  h = Math.imul(h ^ (h >>> 13), 0xC2B2AE35);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+};
+
+const smooth = (t: number) => t * t * (3 - 2 * t);
+
+// Value noise: lattice hashes blended smoothly in between. Range [0, 1).
+export const valueNoise = (x: number, y: number, seed: number): number => {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const tx = smooth(x - x0);
+  const ty = smooth(y - y0);
+  const top = hash2(x0, y0, seed) + (hash2(x0 + 1, y0, seed) - hash2(x0, y0, seed)) * tx;
+  const bottom = hash2(x0, y0 + 1, seed) + (hash2(x0 + 1, y0 + 1, seed) - hash2(x0, y0 + 1, seed)) * tx;
+  return top + (bottom - top) * ty;
+};
+
+// Octaves of value noise, each twice as fine and half as strong. Range [0, 1).
+export const fractalNoise = (x: number, y: number, seed: number, octaves: number = 3): number => {
+  let sum = 0;
+  let amplitude = 1;
+  let total = 0;
+  for (let i = 0; i < octaves; i++) {
+    sum += valueNoise(x * (1 << i), y * (1 << i), seed + i * 0x3C6EF372) * amplitude;
+    total += amplitude;
+    amplitude /= 2;
+  }
+  return sum / total;
+};
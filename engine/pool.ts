@@ -0,0 +1,70 @@
+import { Bullet, GameWorld, Particle } from '../types';
+
+// Spare objects for the two things spawned by the hundred per second: bullets and particles.
+// Kept beside the world rather than in it, so the world stays plain data; a cloned world
+// (replay keyframes) just starts with empty pools.
+interface Pools {
+  bullets: Bullet[];
+  particles: Particle[];
+}
+
+const PREALLOCATED_BULLETS = 256;
+const PREALLOCATED_PARTICLES = 1024;
+const MAX_POOLED = 4096;
+
+const pools = new WeakMap<GameWorld, Pools>();
+
+const createBullet = (): Bullet => ({
+  id: '', pos: { x: 0, y: 0 }, vel: { x: 0, y: 0 }, radius: 0, color: '', ownerId: '',
+  damage: 0, lifeTime: 0, isReflected: false, bulletType: '', pierceLeft: 0, bouncesLeft: 0, hitIds: []
+});
+
+const createParticle = (): Particle => ({
+  id: '', pos: { x: 0, y: 0 }, vel: { x: 0, y: 0 }, life: 0, maxLife: 0, color: '', size: 0
+});
+
+const getPools = (world: GameWorld): Pools => {
+  let pool = pools.get(world);
+  if (!pool) {
+    pool = { bullets: [], particles: [] };
+    pools.set(world, pool);
+  }
+  return pool;
+};
+
+export const preallocatePools = (world: GameWorld) => {
+  const pool = getPools(world);
+  while (pool.bullets.length < PREALLOCATED_BULLETS) pool.bullets.push(createBullet());
+  while (pool.particles.length < PREALLOCATED_PARTICLES) pool.particles.push(createParticle());
+};
+
+// Callers overwrite every field, so a recycled object carries nothing over.
+export const acquireBullet = (world: GameWorld): Bullet => getPools(world).bullets.pop() || createBullet();
+export const acquireParticle = (world: GameWorld): Particle => getPools(world).particles.pop() || createParticle();
+
+export const releaseBullet = (world: GameWorld, b: Bullet) => {
+  const pool = getPools(world).bullets;
+  if (pool.length < MAX_POOLED) pool.push(b);
+};
+
+export const releaseParticle = (world: GameWorld, p: Particle) => {
+  const pool = getPools(world).particles;
+  if (pool.length < MAX_POOLED) pool.push(p);
+};
+
+// Monotonic per world, so ids are cheap and the same on every replay of a level.
+export const nextEntityId = (world: GameWorld): string => (++world.lastEntityId).toString(36);
+
+/**
+ * Drops the entries `isDead` picks out, compacting the array in place (order kept, nothing
+ * allocated). Each dropped entry is passed to `release`, e.g. to return it to its pool.
+ */
+export const removeDead = <T>(list: T[], isDead: (item: T) => boolean, release?: (item: T) => void) => {
+  let kept = 0;
+  for (let i = 0; i < list.length; i++) {
+    const item = list[i];
+    if (isDead(item)) release?.(item);
+    else list[kept++] = item;
+  }
+  list.length = kept;
+};
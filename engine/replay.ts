@@ -0,0 +1,131 @@
+import { FrameInput, GameWorld, LevelInfo, PlayerInput, PlayerLoadout, Replay } from '../types';
+import { createWorld, createIdleInput, stepWorld } from './world';
+import { getLevelSeed } from './rng';
+
+// Bump whenever the encoding or the simulation rules change. Replays of older versions are rejected, not guessed at.
+export const REPLAY_VERSION = 17;
+
+type ButtonName = Exclude<keyof PlayerInput, 'move'>;
+// Bit order of the per-player button byte. Only ever append to this list.
+const BUTTONS: ButtonName[] = ['fire', 'dash', 'interact', 'melee'];
+const BYTES_PER_PLAYER = 3;
+
+// Analog axes are stored as int8. Live input must be snapped the same way before it is
+// simulated, otherwise a replay would not see exactly what the live run saw.
+export const quantizeAxis = (value: number): number => Math.max(-127, Math.min(127, Math.round(value * 127))) / 127;
+
+export const quantizeInput = (input: FrameInput): FrameInput => {
+  const out: FrameInput = {};
+  for (const id of Object.keys(input)) {
+    const controls = input[id];
+    out[id] = { ...controls, move: { x: quantizeAxis(controls.move.x), y: quantizeAxis(controls.move.y) } };
+  }
+  return out;
+};
+
+export interface ReplayRecorder {
+  runSeed: string;
+  levelInfo: LevelInfo;
+  playerIds: string[];
+  loadouts: Record<string, PlayerLoadout>;
+  tickCount: number;
+  runs: { frame: number[]; count: number }[];
+}
+
+export const createReplayRecorder = (runSeed: string, levelInfo: LevelInfo, playerIds: string[], loadouts: Record<string, PlayerLoadout>): ReplayRecorder => ({
+  runSeed, levelInfo, playerIds, loadouts: structuredClone(loadouts), tickCount: 0, runs: []
+});
+
+const encodeFrame = (input: FrameInput, playerIds: string[]): number[] => {
+  const bytes: number[] = [];
+  for (const id of playerIds) {
+    const controls = input[id];
+    if (!controls) { bytes.push(0, 0, 0); continue; }
+    let buttons = 0;
+    BUTTONS.forEach((name, bit) => { if (controls[name]) buttons |= 1 << bit; });
+    bytes.push(Math.round(controls.move.x * 127) & 0xff, Math.round(controls.move.y * 127) & 0xff, buttons);
+  }
+  return bytes;
+};
+
+const decodeFrame = (bytes: number[], offset: number, playerIds: string[]): FrameInput => {
+  const input: FrameInput = {};
+  playerIds.forEach((id, i) => {
+    const base = offset + i * BYTES_PER_PLAYER;
+    const toAxis = (b: number) => (b > 127 ? b - 256 : b) / 127;
+    const controls: PlayerInput = { ...createIdleInput(), move: { x: toAxis(bytes[base]), y: toAxis(bytes[base + 1]) } };
+    BUTTONS.forEach((name, bit) => { controls[name] = (bytes[base + 2] & (1 << bit)) !== 0; });
+    input[id] = controls;
+  });
+  return input;
+};
+
+export const recordFrame = (recorder: ReplayRecorder, input: FrameInput) => {
+  const frame = encodeFrame(input, recorder.playerIds);
+  const last = recorder.runs[recorder.runs.length - 1];
+  if (last && last.frame.every((b, i) => b === frame[i])) last.count++;
+  else recorder.runs.push({ frame, count: 1 });
+  recorder.tickCount++;
+};
+
+export const finishReplay = (recorder: ReplayRecorder): Replay => {
+  // Each run is a LEB128 repeat count followed by one frame.
+  const bytes: number[] = [];
+  for (const run of recorder.runs) {
+    let count = run.count;
+    while (count >= 0x80) { bytes.push((count & 0x7f) | 0x80); count >>>= 7; }
+    bytes.push(count);
+    bytes.push(...run.frame);
+  }
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+
+  return {
+    version: REPLAY_VERSION,
+    runSeed: recorder.runSeed,
+    levelInfo: recorder.levelInfo,
+    playerIds: recorder.playerIds,
+    loadouts: recorder.loadouts,
+    tickCount: recorder.tickCount,
+    inputs: btoa(binary),
+  };
+};
+
+export const decodeReplayInputs = (replay: Replay): FrameInput[] => {
+  if (replay.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version ${replay.version} (expected ${REPLAY_VERSION})`);
+  }
+  const binary = atob(replay.inputs);
+  const bytes: number[] = [];
+  for (let i = 0; i < binary.length; i++) bytes.push(binary.charCodeAt(i));
+
+  const frameSize = replay.playerIds.length * BYTES_PER_PLAYER;
+  const frames: FrameInput[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    let count = 0;
+    let shift = 0;
+    let b: number;
+    do {
+      b = bytes[offset++];
+      count |= (b & 0x7f) << shift;
+      shift += 7;
+    } while (b & 0x80);
+    if (offset + frameSize > bytes.length) throw new Error('Replay input stream is truncated');
+    const frame = decodeFrame(bytes, offset, replay.playerIds);
+    for (let i = 0; i < count; i++) frames.push(frame);
+    offset += frameSize;
+  }
+  if (frames.length !== replay.tickCount) throw new Error('Replay tick count does not match its input stream');
+  return frames;
+};
+
+export const createReplayWorld = (replay: Replay): GameWorld =>
+  createWorld(replay.levelInfo, getLevelSeed(replay.runSeed, replay.levelInfo.levelNumber), replay.loadouts);
+
+// Headless playback: re-runs the whole level and returns the final world (scores, crystals, outcome).
+export const simulateReplay = (replay: Replay): GameWorld => {
+  const world = createReplayWorld(replay);
+  for (const input of decodeReplayInputs(replay)) stepWorld(world, input);
+  return world;
+};
@@ -0,0 +1,42 @@
+import { Rng } from '../types';
+
+// Seedable PRNG (mulberry32).
+export const createRng = (seed: number): Rng => ({ state: seed >>> 0 });
+
+// Returns a float in [0, 1), like Math.random().
+export const random = (rng: Rng): number => {
+  rng.state = (rng.state + 0x6D2B79F5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const randomRange = (rng: Rng, min: number, max: number): number => min + random(rng) * (max - min);
+
+export const pick = <T>(rng: Rng, items: readonly T[]): T => items[Math.floor(random(rng) * items.length)];
+
+// FNV-1a, used to turn a typed seed into PRNG state.
+export const hashSeed = (text: string): number => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const SEED_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const SEED_LENGTH = 8;
+
+// A fresh, human-shareable run seed.
+export const generateRunSeed = (): string => {
+  let seed = '';
+  for (let i = 0; i < SEED_LENGTH; i++) seed += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+  return seed;
+};
+
+export const normalizeRunSeed = (text: string): string => text.trim().toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 16);
+
+// Every level of a run gets its own stream, derived from the run seed and level number.
+export const getLevelSeed = (runSeed: string, levelNumber: number): number => hashSeed(`${runSeed}#${levelNumber}`);
@@ -0,0 +1,89 @@
+import { Vector2 } from '../types';
+import { SPATIAL_CELL_SIZE } from './constants';
+
+type Located = { pos: Vector2; radius: number };
+
+/**
+ * Broad phase for collision and proximity queries: entities bucketed by the cell their centre
+ * is in. Built fresh from a list whenever positions have moved on, and never stored in the
+ * world, so worlds stay plain data. Queries return candidates; callers do the exact test.
+ */
+export interface SpatialHash<T extends Located> {
+  cellSize: number;
+  cells: Map<number, T[]>;
+  maxRadius: number;    // queries widen by this so large bodies are found from their edge
+  count: number;
+}
+
+// Packs cell coordinates into one number; good for +/-32k cells each way.
+const cellKey = (cx: number, cy: number) => (cx + 32768) * 65536 + (cy + 32768);
+
+export const insertSpatial = <T extends Located>(hash: SpatialHash<T>, item: T) => {
+  const key = cellKey(Math.floor(item.pos.x / hash.cellSize), Math.floor(item.pos.y / hash.cellSize));
+  const bucket = hash.cells.get(key);
+  if (bucket) bucket.push(item);
+  else hash.cells.set(key, [item]);
+  hash.maxRadius = Math.max(hash.maxRadius, item.radius);
+  hash.count++;
+};
+
+export const createSpatialHash = <T extends Located>(items: T[], cellSize: number = SPATIAL_CELL_SIZE): SpatialHash<T> => {
+  const hash: SpatialHash<T> = { cellSize, cells: new Map(), maxRadius: 0, count: 0 };
+  for (const item of items) insertSpatial(hash, item);
+  return hash;
+};
+
+// Everything whose body could touch a circle of `radius` around `pos`.
+export const querySpatial = <T extends Located>(hash: SpatialHash<T>, pos: Vector2, radius: number, out: T[] = []): T[] => {
+  if (hash.count === 0) return out;
+  const reach = radius + hash.maxRadius;
+  const minX = Math.floor((pos.x - reach) / hash.cellSize);
+  const maxX = Math.floor((pos.x + reach) / hash.cellSize);
+  const minY = Math.floor((pos.y - reach) / hash.cellSize);
+  const maxY = Math.floor((pos.y + reach) / hash.cellSize);
+  for (let cx = minX; cx <= maxX; cx++) {
+    for (let cy = minY; cy <= maxY; cy++) {
+      const bucket = hash.cells.get(cellKey(cx, cy));
+      if (bucket) for (const item of bucket) out.push(item);
+    }
+  }
+  return out;
+};
+
+/**
+ * Nearest accepted item whose centre is closer than `maxRange`, searching outwards one ring
+ * of cells at a time and stopping once no unsearched cell could hold anything closer.
+ */
+export const findNearestSpatial = <T extends Located>(hash: SpatialHash<T>, pos: Vector2, maxRange: number, accept: (item: T) => boolean = () => true): T | null => {
+  if (hash.count === 0) return null;
+  const { cellSize } = hash;
+  const cx = Math.floor(pos.x / cellSize);
+  const cy = Math.floor(pos.y / cellSize);
+  const maxRing = Math.ceil(maxRange / cellSize);
+  let best: T | null = null;
+  let bestDist = maxRange;
+
+  const visit = (x: number, y: number) => {
+    const bucket = hash.cells.get(cellKey(x, y));
+    if (!bucket) return;
+    for (const item of bucket) {
+      const d = Math.hypot(item.pos.x - pos.x, item.pos.y - pos.y);
+      if (d < bestDist && accept(item)) { bestDist = d; best = item; }
+    }
+  };
+
+  for (let r = 0; r <= maxRing; r++) {
+    // Every cell in ring r is at least (r - 1) cells away
+    if ((r - 1) * cellSize > bestDist) break;
+    if (r === 0) { visit(cx, cy); continue; }
+    for (let i = -r; i <= r; i++) {
+      visit(cx + i, cy - r);
+      visit(cx + i, cy + r);
+    }
+    for (let i = -r + 1; i <= r - 1; i++) {
+      visit(cx - r, cy + i);
+      visit(cx + r, cy + i);
+    }
+  }
+  return best;
+};
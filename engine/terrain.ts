@@ -0,0 +1,20 @@
+import { TerrainEffect, TerrainType } from '../types';
+import { FRICTION } from './constants';
+
+// Damage and healing are dealt in pulses this many ticks apart, not a sliver every tick.
+export const HAZARD_INTERVAL = 30;
+
+const OPEN_GROUND: TerrainEffect = { name: 'Ground', color: '', friction: FRICTION, acceleration: 1, damagePerSecond: 0, healPerSecond: 0 };
+
+export const TERRAIN_EFFECTS: Record<TerrainType, TerrainEffect> = {
+  water: { name: 'Shallows', color: '#1e3a8a', friction: 0.86, acceleration: 0.75, damagePerSecond: 0, healPerSecond: 0 },
+  mud: { name: 'Mud', color: '#3f2a1a', friction: 0.85, acceleration: 0.6, damagePerSecond: 0, healPerSecond: 0 },
+  // Slippery: slow to get going, slower to stop
+  ice: { name: 'Ice', color: '#bae6fd', friction: 0.98, acceleration: 0.25, damagePerSecond: 0, healPerSecond: 0 },
+  lava: { name: 'Lava', color: '#dc2626', friction: FRICTION, acceleration: 0.9, damagePerSecond: 20, healPerSecond: 0 },
+  acid: { name: 'Acid', color: '#65a30d', friction: 0.87, acceleration: 0.8, damagePerSecond: 12, healPerSecond: 0 },
+  crystal_field: { name: 'Resonant Crystal', color: '#7c3aed', friction: FRICTION, acceleration: 1.25, damagePerSecond: 0, healPerSecond: 0 },
+  spring: { name: 'Healing Spring', color: '#2dd4bf', friction: 0.87, acceleration: 0.85, damagePerSecond: 0, healPerSecond: 10 },
+};
+
+export const getTerrainEffect = (type: TerrainType | null): TerrainEffect => (type && TERRAIN_EFFECTS[type]) || OPEN_GROUND;
@@ -0,0 +1,37 @@
+import { MetaSave, Player, PlayerLoadout, UnlockDefinition } from '../types';
+
+// Bought with shards between runs. Listed in tree order: when two unlocks set the same
+// hero's starting weapon, the later one wins.
+export const UNLOCKS: UnlockDefinition[] = [
+  { id: 'vitality', name: 'Reinforced Suits', description: '+25 max HP for both heroes.', cost: 40, bonusMaxHp: 25 },
+  { id: 'vitality_2', name: 'Exo-Frames', description: '+50 more max HP for both heroes.', cost: 120, requires: 'vitality', bonusMaxHp: 50 },
+  { id: 'medkit', name: 'Field Kit', description: 'Both heroes start every run with a Syringe.', cost: 100, requires: 'vitality', item: 'syringe' },
+  { id: 'heart', name: 'Titan Heirloom', description: 'Both heroes start every run with a Titan Heart.', cost: 300, requires: 'vitality_2', item: 'titan_heart' },
+  { id: 'boy_shotgun', name: 'Boy: Shotgun', description: 'The Boy starts with a Shotgun.', cost: 60, role: 'boy', weapon: 'shotgun' },
+  { id: 'boy_laser', name: 'Boy: Laser', description: 'The Boy starts with a Laser.', cost: 150, requires: 'boy_shotgun', role: 'boy', weapon: 'laser' },
+  { id: 'girl_minigun', name: 'Girl: Minigun', description: 'The Girl starts with a Minigun.', cost: 80, role: 'girl', weapon: 'minigun' },
+];
+
+// Player ids as createWorld assigns them.
+export const PLAYER_ROLES: Record<string, Player['role']> = { p1: 'boy', p2: 'girl' };
+
+export const canUnlock = (save: MetaSave, unlock: UnlockDefinition) =>
+  !save.unlocks.includes(unlock.id) &&
+  (!unlock.requires || save.unlocks.includes(unlock.requires)) &&
+  save.shards >= unlock.cost;
+
+// Turns owned unlocks into what each player starts a fresh run with.
+export const createRunLoadouts = (unlocks: string[]): Record<string, PlayerLoadout> => {
+  const loadouts: Record<string, PlayerLoadout> = {};
+  for (const [playerId, role] of Object.entries(PLAYER_ROLES)) {
+    const loadout: PlayerLoadout = { items: {} };
+    UNLOCKS.forEach(unlock => {
+      if (!unlocks.includes(unlock.id) || (unlock.role && unlock.role !== role)) return;
+      if (unlock.weapon) loadout.weapon = unlock.weapon;
+      if (unlock.bonusMaxHp) loadout.bonusMaxHp = (loadout.bonusMaxHp || 0) + unlock.bonusMaxHp;
+      if (unlock.item) loadout.items[unlock.item] = (loadout.items[unlock.item] || 0) + 1;
+    });
+    loadouts[playerId] = loadout;
+  }
+  return loadouts;
+};
@@ -0,0 +1,173 @@
+import { Player, Rng, WeaponDefinition, WeaponTier, WeaponType } from '../types';
+import { random } from './rng';
+
+// Crates pick from droppable weapons in registry order, so built-ins keep a fixed order
+// and mods are appended after them.
+const BUILT_IN_WEAPONS: WeaponDefinition[] = [
+  {
+    id: 'shotgun', name: 'Shotgun', cooldown: 60, magazine: 6, reloadTime: 75, reserve: 24, pellets: 5, spread: 0.15, jitter: 0, recoil: 6, droppable: true,
+    projectile: { speed: 12, damage: 12, radius: 3, lifeTime: 30, color: '#f97316' },
+    visual: { color: '#333', length: 25 },
+  },
+  {
+    id: 'minigun', name: 'Minigun', cooldown: 4, magazine: 100, reloadTime: 150, reserve: 300, pellets: 1, spread: 0, jitter: 0.4, recoil: 0.5, droppable: true,
+    projectile: { speed: 18, damage: 8, radius: 3, lifeTime: 60, color: '#fbbf24' },
+    visual: { color: '#333', length: 25 },
+  },
+  {
+    id: 'laser', name: 'Laser', cooldown: 25, magazine: 20, reloadTime: 60, reserve: 60, pellets: 1, spread: 0, jitter: 0, recoil: 0, droppable: true,
+    projectile: { speed: 25, damage: 25, radius: 4, lifeTime: 80, color: '#4ade80', pierce: 2 },
+    visual: { color: '#fff', length: 25 },
+  },
+  {
+    id: 'sniper', name: 'Sniper', cooldown: 90, magazine: 5, reloadTime: 90, reserve: 20, pellets: 1, spread: 0, jitter: 0, recoil: 8, droppable: true,
+    projectile: { speed: 35, damage: 150, radius: 5, lifeTime: 100, color: '#60a5fa', homing: { range: 800, strength: 0.2 } },
+    visual: { color: '#111', length: 45, scopeColor: '#22c55e' },
+  },
+  {
+    id: 'ak47', name: 'AK47', cooldown: 10, magazine: 30, reloadTime: 60, reserve: 120, pellets: 1, spread: 0, jitter: 0.1, recoil: 1, droppable: true,
+    projectile: { speed: 16, damage: 20, radius: 4, lifeTime: 80, color: '#fcd34d' },
+    visual: { color: '#4b5563', length: 30 },
+  },
+  // Fired by enemies; callers pass their own velocity.
+  {
+    id: 'enemy_normal', name: 'Enemy Shot', cooldown: 0, magazine: 1, reloadTime: 0, reserve: 0, pellets: 1, spread: 0, jitter: 0, recoil: 0, droppable: false,
+    projectile: { speed: 7, damage: 10, radius: 6, lifeTime: 100, color: '#ef4444' },
+    visual: { color: '#333', length: 0 },
+  },
+  {
+    id: 'enemy_sniper', name: 'Sniper Shot', cooldown: 0, magazine: 1, reloadTime: 0, reserve: 0, pellets: 1, spread: 0, jitter: 0, recoil: 0, droppable: false,
+    projectile: { speed: 16, damage: 25, radius: 5, lifeTime: 70, color: '#f43f5e' },
+    visual: { color: '#333', length: 0 },
+  },
+];
+
+export const WEAPON_TIERS: WeaponTier[] = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
+
+export const TIER_STATS: Record<WeaponTier, { weight: number; damage: number; magazine: number; color: string }> = {
+  common: { weight: 60, damage: 1, magazine: 1, color: '#e5e7eb' },
+  uncommon: { weight: 25, damage: 1.15, magazine: 1.1, color: '#4ade80' },
+  rare: { weight: 10, damage: 1.35, magazine: 1.25, color: '#60a5fa' },
+  epic: { weight: 4, damage: 1.6, magazine: 1.5, color: '#c084fc' },
+  legendary: { weight: 1, damage: 2, magazine: 2, color: '#fbbf24' },
+};
+
+// Each level past the first adds this much damage to drops and shifts odds toward rarer tiers.
+const LEVEL_DAMAGE_SCALING = 0.08;
+const LEVEL_RARITY_SCALING = 0.25;
+
+export const rollWeaponTier = (rng: Rng, levelNumber: number): WeaponTier => {
+  const weights = WEAPON_TIERS.map((tier, i) => TIER_STATS[tier].weight * (1 + (levelNumber - 1) * LEVEL_RARITY_SCALING * i));
+  let roll = random(rng) * weights.reduce((a, b) => a + b, 0);
+  for (let i = 0; i < WEAPON_TIERS.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return WEAPON_TIERS[i];
+  }
+  return 'common';
+};
+
+export const getWeaponPower = (tier: WeaponTier, levelNumber: number) =>
+  TIER_STATS[tier].damage * (1 + (levelNumber - 1) * LEVEL_DAMAGE_SCALING);
+
+export const getMagazineSize = (weapon: WeaponType, tier: WeaponTier) =>
+  Math.max(1, Math.round(getWeapon(weapon).magazine * TIER_STATS[tier].magazine));
+
+// Fills magazine and reserve for a freshly equipped weapon.
+export const equipWeapon = (p: Player, weapon: WeaponType, tier: WeaponTier, power: number) => {
+  p.weapon = weapon;
+  p.weaponTier = tier;
+  p.weaponPower = power;
+  p.ammo = getMagazineSize(weapon, tier);
+  p.reserveAmmo = Math.round(getWeapon(weapon).reserve * TIER_STATS[tier].magazine);
+  p.reloadTime = 0;
+};
+
+const registry = new Map<WeaponType, WeaponDefinition>(BUILT_IN_WEAPONS.map(w => [w.id, w]));
+
+export const DEFAULT_WEAPON: WeaponType = 'ak47';
+
+// Unknown ids (e.g. a mod that is not loaded on this machine) fall back to the default.
+export const getWeapon = (id: WeaponType): WeaponDefinition => registry.get(id) || registry.get(DEFAULT_WEAPON)!;
+
+export const hasWeapon = (id: WeaponType): boolean => registry.has(id);
+
+export const getDroppableWeapons = (): WeaponType[] =>
+  Array.from(registry.values()).filter(w => w.droppable).map(w => w.id);
+
+/**
+ * Adds or replaces a weapon. The registry is part of the simulation rules: replays and
+ * online partners only stay in sync when both sides registered the same weapons.
+ */
+export const registerWeapon = (weapon: WeaponDefinition) => {
+  registry.set(weapon.id, weapon);
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+// Anything that is not a JSON object reads as an empty one, so its fields fail one by one.
+const asRecord = (value: unknown): Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+/**
+ * Validates untrusted JSON (a single definition or an array) and fills optional fields.
+ * Throws with the offending weapon and field instead of registering half a weapon.
+ */
+export const parseWeaponDefinitions = (json: unknown): WeaponDefinition[] => {
+  const list: unknown[] = Array.isArray(json) ? json : [json];
+  return list.map((raw, index) => {
+    const w = asRecord(raw);
+    const label = isString(w.id) ? `Weapon "${w.id}"` : `Weapon #${index}`;
+    const fail = (field: string): never => { throw new Error(`${label}: invalid or missing "${field}"`); };
+    const p = asRecord(w.projectile);
+    const v = asRecord(w.visual);
+
+    const id = isString(w.id) ? w.id : fail('id');
+    const cooldown = isNumber(w.cooldown) && w.cooldown >= 1 ? w.cooldown : fail('cooldown');
+    const positive = (field: string): number => {
+      const value = p[field];
+      return isNumber(value) && value > 0 ? value : fail(`projectile.${field}`);
+    };
+    const speed = positive('speed');
+    const damage = positive('damage');
+    const radius = positive('radius');
+    const lifeTime = positive('lifeTime');
+    let homing: WeaponDefinition['projectile']['homing'];
+    if (p.homing !== undefined) {
+      const h = asRecord(p.homing);
+      homing = isNumber(h.range) && isNumber(h.strength)
+        ? { range: h.range, strength: Math.min(1, Math.max(0, h.strength)) }
+        : fail('projectile.homing');
+    }
+    const optionalCount = (field: string): number | undefined => {
+      const value = p[field];
+      if (value === undefined) return undefined;
+      return isNumber(value) && value >= 0 ? Math.round(value) : fail(`projectile.${field}`);
+    };
+    const pierce = optionalCount('pierce');
+    const bounces = optionalCount('bounces');
+
+    return {
+      id,
+      name: isString(w.name) ? w.name : id,
+      cooldown: Math.round(cooldown),
+      magazine: isNumber(w.magazine) ? Math.max(1, Math.round(w.magazine)) : 30,
+      reloadTime: isNumber(w.reloadTime) ? Math.max(0, Math.round(w.reloadTime)) : 60,
+      reserve: isNumber(w.reserve) ? Math.max(0, Math.round(w.reserve)) : 90,
+      pellets: isNumber(w.pellets) ? Math.max(1, Math.round(w.pellets)) : 1,
+      spread: isNumber(w.spread) ? w.spread : 0,
+      jitter: isNumber(w.jitter) ? w.jitter : 0,
+      recoil: isNumber(w.recoil) ? w.recoil : 0,
+      droppable: w.droppable !== false,
+      projectile: {
+        speed, damage, radius, lifeTime: Math.round(lifeTime),
+        color: isString(p.color) ? p.color : '#ffea00',
+        homing, pierce, bounces,
+      },
+      visual: {
+        color: isString(v.color) ? v.color : '#333',
+        length: isNumber(v.length) ? v.length : 25,
+        scopeColor: isString(v.scopeColor) ? v.scopeColor : undefined,
+      },
+    };
+  });
+};
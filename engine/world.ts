@@ -0,0 +1,843 @@
+import { Entity, EnvironmentObject, Player, Enemy, EnemyBehaviorContext, EnemyType, EnemyVisuals, Bullet, Vector2, LevelInfo, WeaponType, WeaponTier, PlayerLoadout, RunStats, GameWorld, GameEvent, FrameInput, PlayerInput } from '../types';
+import {
+  ACCELERATION, MAX_SPEED, TICK_RATE, DASH_SPEED, DASH_DURATION, DASH_COOLDOWN,
+  MELEE_DURATION, MELEE_COOLDOWN, REFLECT_SPEED_MULTIPLIER, REFLECT_DAMAGE_MULTIPLIER, REFLECT_KILL_BONUS,
+  ITEM_DROP_CHANCE, BOSS_LOOT_GRACE, BLEED_OUT_TIME, REVIVE_TIME, REVIVE_RADIUS, REVIVE_HP_FRACTION
+} from './constants';
+import { checkEnvironmentCollision, getSolidAt, getTerrainAt, isCoverBroken, isInsideBuilding } from './environment';
+import { resolveLevelParams } from './levelParams';
+import { getTerrainEffect, HAZARD_INTERVAL } from './terrain';
+import { createRng, random, pick } from './rng';
+import { addItem, getItem, getItemStat, rollItem, triggerItems, RARITY_COLORS } from './items';
+import { BUFF_DAMAGE, BUFF_SPEED, getEnemyArchetype, isTargetable, rollEnemyType } from './enemies';
+import { createBossState, enterBossPhase, getBossPhase } from './bosses';
+import { createNavState, getFlowHeading, updateNavigation } from './navigation';
+import { createSpatialHash, findNearestSpatial, querySpatial } from './spatialHash';
+import { acquireBullet, acquireParticle, nextEntityId, preallocatePools, releaseBullet, releaseParticle, removeDead } from './pool';
+import { getWeapon, getDroppableWeapons, rollWeaponTier, getWeaponPower, getMagazineSize, equipWeapon, WEAPON_TIERS, TIER_STATS } from './weapons';
+
+export const createIdleInput = (): PlayerInput => ({ move: { x: 0, y: 0 }, fire: false, dash: false, interact: false, melee: false });
+
+const IDLE_INPUT = createIdleInput();
+
+const CRYSTAL_PICKUP_RANGE = 50;
+// Slack on flocking queries: enemies earlier in the AI loop have already moved this tick
+const FLOCK_MARGIN = 16;
+// Ticks between enemy spawns at a level's default pace
+const ENEMY_SPAWN_INTERVAL = 120;
+
+// The boy swings a sword: long reach, wide arc, real damage. The girl's rifle-butt parry mostly deflects.
+export const MELEE_STATS: Record<Player['role'], { range: number; arc: number; damage: number; color: string }> = {
+  boy: { range: 85, arc: Math.PI * 0.8, damage: 60, color: '#e0f2fe' },
+  girl: { range: 60, arc: Math.PI * 0.5, damage: 20, color: '#fbcfe8' },
+};
+
+const REFLECTED_COLOR = '#22d3ee';
+
+// Each hero's default gun; unlocks can replace it through the loadout.
+const STARTING_WEAPONS: Record<Player['role'], WeaponType> = { boy: 'sniper', girl: 'ak47' };
+
+const createWeaponState = (weapon: WeaponType) => ({
+  weapon, sidearm: weapon, weaponTier: 'common' as WeaponTier, weaponPower: 1,
+  ammo: getMagazineSize(weapon, 'common'), reserveAmmo: getWeapon(weapon).reserve, reloadTime: 0,
+  cooldown: 0, maxCooldown: getWeapon(weapon).cooldown,
+});
+
+/**
+ * Builds a fresh level. Every spawn and roll draws from `world.rng`, so the same seed
+ * and the same per-tick inputs reproduce the same run. Particles use a separate stream
+ * so purely cosmetic changes never shift gameplay rolls. `loadouts` carry unlock perks and
+ * items from earlier levels, keyed by player id.
+ */
+export const createWorld = (levelInfo: LevelInfo | null, seed: number, loadouts: Record<string, PlayerLoadout> = {}): GameWorld => {
+  const levelNumber = levelInfo?.levelNumber || 1;
+  const params = resolveLevelParams(levelInfo);
+  const world: GameWorld = {
+    levelNumber,
+    seed,
+    params,
+    coverDamage: {},
+    rng: createRng(seed),
+    fxRng: createRng(seed ^ 0x9E3779B9),
+    crystalsToBoss: 10 + levelNumber * 2,
+    players: [
+      {
+        id: 'p1', type: 'player', role: 'boy', ...createWeaponState(loadouts.p1?.weapon || STARTING_WEAPONS.boy),
+        pos: { x: -50, y: 0 }, vel: { x: 0, y: 0 },
+        radius: 20, color: '#3b82f6', hp: 200, maxHp: 200, dead: false,
+        rotation: 0, animFrame: 0,
+        dashCooldown: 0, dashTime: 0, meleeCooldown: 0, meleeTime: 0, items: {}, score: 0, isInvulnerable: false,
+        downed: false, bleedOut: 0, reviveProgress: 0
+      },
+      {
+        id: 'p2', type: 'player', role: 'girl', ...createWeaponState(loadouts.p2?.weapon || STARTING_WEAPONS.girl),
+        pos: { x: 50, y: 0 }, vel: { x: 0, y: 0 },
+        radius: 18, color: '#ec4899', hp: 150, maxHp: 150, dead: false,
+        rotation: 0, animFrame: 0,
+        dashCooldown: 0, dashTime: 0, meleeCooldown: 0, meleeTime: 0, items: {}, score: 0, isInvulnerable: false,
+        downed: false, bleedOut: 0, reviveProgress: 0
+      }
+    ],
+    enemies: [],
+    bullets: [],
+    particles: [],
+    crystals: [],
+    crates: [],
+    pickups: [],
+    items: [],
+    waveTimer: 0,
+    bossSpawned: false,
+    boss: createBossState(levelInfo, levelNumber, params.bossStyle),
+    nav: createNavState(),
+    bossKilledAt: null,
+    enemiesKilled: 0,
+    revives: 0,
+    lastEntityId: 0,
+    scoreAtStart: 0,
+    crystalsCollected: 0,
+    outcome: 'playing',
+  };
+  world.players.forEach(p => {
+    const loadout = loadouts[p.id];
+    if (!loadout) return;
+    p.maxHp += loadout.bonusMaxHp || 0;
+    p.hp = p.maxHp;
+    Object.keys(loadout.items).forEach(id => { if (getItem(id)) addItem(p, id, loadout.items[id]); });
+
+    const carried = loadout.carried;
+    if (carried) {
+      equipWeapon(p, carried.weapon, carried.weaponTier, carried.weaponPower);
+      p.ammo = carried.ammo;
+      p.reserveAmmo = carried.reserveAmmo;
+      // A hero who fell in the last level gets back up with a quarter of their health
+      p.hp = Math.min(p.maxHp, Math.max(carried.hp, p.maxHp * 0.25));
+      p.score = carried.score;
+    }
+  });
+  world.scoreAtStart = world.players.reduce((sum, p) => sum + p.score, 0);
+  preallocatePools(world);
+  return world;
+};
+
+// What each player takes into the next level: perks, items, gun, health and score.
+export const getNextLevelLoadouts = (world: GameWorld, loadouts: Record<string, PlayerLoadout>): Record<string, PlayerLoadout> =>
+  Object.fromEntries(world.players.map(p => [p.id, {
+    ...loadouts[p.id],
+    items: { ...p.items },
+    carried: {
+      weapon: p.weapon, weaponTier: p.weaponTier, weaponPower: p.weaponPower,
+      ammo: p.ammo, reserveAmmo: p.reserveAmmo, hp: p.hp, score: p.score,
+    },
+  }]));
+
+// Able to move, shoot, collect and be targeted; downed and dead players are neither.
+export const isPlayerStanding = (p: Player) => !p.dead && !p.downed;
+
+// Downed players pull at half weight, so their partner stays central but can still find them.
+export const getCameraCenter = (world: GameWorld): Vector2 => {
+  let x = 0, y = 0, weight = 0;
+  world.players.forEach(p => {
+    if (p.dead) return;
+    const w = p.downed ? 0.5 : 1;
+    x += p.pos.x * w; y += p.pos.y * w; weight += w;
+  });
+  return weight === 0 ? { x: 0, y: 0 } : { x: x / weight, y: y / weight };
+};
+
+export const getLevelStats = (world: GameWorld): RunStats => ({
+  score: world.players.reduce((sum, p) => sum + p.score, 0) - world.scoreAtStart,
+  kills: world.enemiesKilled,
+  crystals: world.crystalsCollected,
+  bosses: world.bossKilledAt === null ? 0 : 1,
+  revives: world.revives,
+});
+
+export const spawnParticle = (world: GameWorld, pos: Vector2, color: string, count: number, type: 'blood' | 'spark' | 'smoke' = 'spark') => {
+  for (let i = 0; i < count; i++) {
+    const speed = random(world.fxRng) * 4 + 1;
+    const angle = random(world.fxRng) * Math.PI * 2;
+    const p = acquireParticle(world);
+    p.id = nextEntityId(world);
+    p.pos.x = pos.x; p.pos.y = pos.y;
+    p.vel.x = Math.cos(angle) * speed; p.vel.y = Math.sin(angle) * speed;
+    p.life = 20 + random(world.fxRng) * 20;
+    p.maxLife = 40;
+    p.color = color;
+    p.size = random(world.fxRng) * 4 + 2;
+    p.type = type;
+    world.particles.push(p);
+  }
+};
+
+export const isPlayerId = (world: GameWorld, id: string) => world.players.some(p => p.id === id);
+
+export const spawnBullet = (world: GameWorld, pos: Vector2, vel: Vector2, ownerId: string, bulletType: WeaponType, damageMultiplier: number = 1) => {
+  const { damage, radius, lifeTime, color, pierce, bounces } = getWeapon(bulletType).projectile;
+
+  const b = acquireBullet(world);
+  b.id = nextEntityId(world);
+  b.pos.x = pos.x; b.pos.y = pos.y;
+  b.vel.x = vel.x; b.vel.y = vel.y;
+  Object.assign(b, { radius, color, ownerId, damage: damage * damageMultiplier, lifeTime, isReflected: false, bulletType });
+  b.pierceLeft = pierce || 0; b.bouncesLeft = bounces || 0;
+  b.hitIds.length = 0;
+  world.bullets.push(b);
+
+  if (isPlayerId(world, ownerId)) {
+     spawnParticle(world, pos, color, 3, 'spark');
+  }
+};
+
+const rollEnemyVisuals = (world: GameWorld): EnemyVisuals => ({
+    hue: random(world.rng) * 360,
+    scale: 0.8 + random(world.rng) * 0.5,
+    hasArmor: random(world.rng) > 0.7,
+    hasHorns: random(world.rng) > 0.5,
+    hasEye: random(world.rng) > 0.5
+});
+
+const createEnemy = (world: GameWorld, type: EnemyType, pos: Vector2, visuals: EnemyVisuals): Enemy => {
+  const archetype = getEnemyArchetype(type);
+  if (archetype.hue !== undefined) visuals.hue = archetype.hue;
+  let hp = (archetype.hp + world.levelNumber * archetype.hpPerLevel) * visuals.scale;
+  if (visuals.hasArmor) hp *= 1.5;
+
+  return {
+    id: nextEntityId(world), type: 'enemy', enemyType: archetype.id,
+    pos, vel: { x: 0, y: 0 },
+    radius: archetype.radius * visuals.scale,
+    rotation: 0, animFrame: 0,
+    color: `hsl(${visuals.hue}, ${archetype.saturation}%, ${archetype.lightness}%)`,
+    hp: hp, maxHp: hp, dead: false, targetId: null, attackCooldown: 0, visuals,
+    phase: archetype.initialPhase || 'idle', phaseTime: 0, aim: { x: 0, y: 0 }, buffTime: 0
+  };
+};
+
+// Summoned or split-off enemies: a given size and never armored.
+const spawnMinion = (world: GameWorld, type: EnemyType, pos: Vector2, scale: number) => {
+  world.enemies.push(createEnemy(world, type, pos, { ...rollEnemyVisuals(world), scale, hasArmor: false }));
+};
+
+export const spawnEnemy = (world: GameWorld, isBoss: boolean = false) => {
+  const angle = random(world.rng) * Math.PI * 2;
+  const distance = 800 + random(world.rng) * 200;
+  const center = getCameraCenter(world);
+  const spawnPos = { x: center.x + Math.cos(angle) * distance, y: center.y + Math.sin(angle) * distance };
+
+  const visuals = rollEnemyVisuals(world);
+
+  if (isBoss) {
+    const bossHp = Math.round(1500 * world.levelNumber * world.params.bossHpMultiplier);
+    world.enemies.push({
+      id: 'boss', type: 'boss', enemyType: 'boss',
+      pos: spawnPos, vel: { x: 0, y: 0 },
+      radius: 80, color: '#991b1b', rotation: 0, animFrame: 0,
+      hp: bossHp, maxHp: bossHp,
+      dead: false, targetId: null, attackCooldown: 0,
+      visuals: { ...visuals, scale: 2.0, hasArmor: true, hasHorns: true },
+      phase: 'idle', phaseTime: 0, aim: { x: 0, y: 0 }, buffTime: 0
+    });
+  } else {
+    world.enemies.push(createEnemy(world, rollEnemyType(world.rng, world.levelNumber, world.params.enemyMix), spawnPos, visuals));
+  }
+};
+
+const spawnCrystal = (world: GameWorld) => {
+  const angle = random(world.rng) * Math.PI * 2;
+  const distance = 400 + random(world.rng) * 1600; // Much wider spread
+  const center = getCameraCenter(world);
+  world.crystals.push({
+    id: nextEntityId(world), type: 'crystal',
+    pos: { x: center.x + Math.cos(angle) * distance, y: center.y + Math.sin(angle) * distance },
+    vel: { x: 0, y: 0 }, radius: 15, color: '#d8b4fe', rotation: random(world.rng) * Math.PI,
+    hp: 1, maxHp: 1, dead: false
+  });
+};
+
+const spawnCrate = (world: GameWorld) => {
+  const angle = random(world.rng) * Math.PI * 2;
+  const distance = 300 + random(world.rng) * 1000;
+  const center = getCameraCenter(world);
+  world.crates.push({
+      id: nextEntityId(world), type: 'crate',
+      pos: { x: center.x + Math.cos(angle) * distance, y: center.y + Math.sin(angle) * distance },
+      vel: {x:0, y:0}, radius: 25, color: '#f97316', rotation: 0,
+      hp: 30, maxHp: 30, dead: false
+  });
+};
+
+const spawnPickup = (world: GameWorld, pos: Vector2) => {
+    const randomWeapon = pick(world.rng, getDroppableWeapons());
+    const tier = rollWeaponTier(world.rng, world.levelNumber);
+
+    world.pickups.push({
+        id: nextEntityId(world), type: 'pickup',
+        pos: { ...pos }, vel: {x:0, y:0}, radius: 15, color: '#fff', rotation: 0,
+        hp: 1, maxHp: 1, dead: false,
+        weaponType: randomWeapon, tier, power: getWeaponPower(tier, world.levelNumber),
+        lifeTime: 30 * TICK_RATE
+    });
+};
+
+const spawnItemDrop = (world: GameWorld, pos: Vector2, itemId: string) => {
+    const angle = random(world.rng) * Math.PI * 2;
+    world.items.push({
+        id: nextEntityId(world), type: 'item',
+        pos: { x: pos.x + Math.cos(angle) * 20, y: pos.y + Math.sin(angle) * 20 }, vel: { x: 0, y: 0 },
+        radius: 15, color: RARITY_COLORS[getItem(itemId)!.rarity], rotation: 0,
+        hp: 1, maxHp: 1, dead: false,
+        itemId, lifeTime: 60 * TICK_RATE
+    });
+};
+
+// --- FIRE WEAPON LOGIC ---
+const fireWeapon = (world: GameWorld, p: Player) => {
+    const weapon = getWeapon(p.weapon);
+    const muzzleDist = 35;
+    const muzzlePos = {
+        x: p.pos.x + Math.cos(p.rotation) * muzzleDist,
+        y: p.pos.y + Math.sin(p.rotation) * muzzleDist
+    };
+
+    // Pellets fan out evenly around the aim; jitter adds one random offset per pellet
+    for (let i = 0; i < weapon.pellets; i++) {
+        let angle = p.rotation + (i - (weapon.pellets - 1) / 2) * weapon.spread;
+        if (weapon.jitter > 0) angle += (random(world.rng) - 0.5) * weapon.jitter;
+        const vel = { x: Math.cos(angle) * weapon.projectile.speed, y: Math.sin(angle) * weapon.projectile.speed };
+        spawnBullet(world, muzzlePos, vel, p.id, weapon.id, p.weaponPower * (1 + getItemStat(p, 'damage')));
+    }
+
+    p.vel.x -= Math.cos(p.rotation) * weapon.recoil; p.vel.y -= Math.sin(p.rotation) * weapon.recoil;
+    p.maxCooldown = Math.max(1, Math.round(weapon.cooldown / (1 + getItemStat(p, 'fireRate'))));
+    p.cooldown = p.maxCooldown;
+
+    if (--p.ammo <= 0) startReload(world, p);
+};
+
+// --- AMMO ---
+const finishReload = (p: Player) => {
+    const loaded = Math.min(getMagazineSize(p.weapon, p.weaponTier) - p.ammo, p.reserveAmmo);
+    p.ammo += loaded;
+    p.reserveAmmo -= loaded;
+    p.reloadTime = 0;
+};
+
+// Out of spare rounds entirely, the hero drops the empty gun and draws their own again.
+const startReload = (world: GameWorld, p: Player) => {
+    if (p.reserveAmmo <= 0) {
+        equipWeapon(p, p.sidearm, 'common', 1);
+        spawnParticle(world, p.pos, '#9ca3af', 6, 'smoke');
+        return;
+    }
+    p.reloadTime = getWeapon(p.weapon).reloadTime;
+    if (p.reloadTime === 0) finishReload(p);
+};
+
+const isInArc = (p: Player, pos: Vector2, reach: number) => {
+    const { range, arc } = MELEE_STATS[p.role];
+    if (Math.hypot(pos.x - p.pos.x, pos.y - p.pos.y) > range + reach) return false;
+    const diff = Math.atan2(pos.y - p.pos.y, pos.x - p.pos.x) - p.rotation;
+    return Math.abs(Math.atan2(Math.sin(diff), Math.cos(diff))) <= arc / 2;
+};
+
+// --- DAMAGE ---
+// `procItems` is false for damage dealt by item effects, so items cannot chain into each other.
+const damageTarget = (world: GameWorld, events: GameEvent[], t: Player | Enemy, damage: number, pos: Vector2, attackerId: string | null, reflected: boolean, procItems: boolean = true) => {
+    if (t.dead || (t.type === 'player' && (t as Player).downed)) return;
+    t.hp -= damage;
+    spawnParticle(world, pos, t.color, 5, 'blood');
+
+    const attacker = world.players.find(p => p.id === attackerId);
+    const isEnemy = t.type === 'enemy' || t.type === 'boss';
+    // A downed attacker's bullets still land, but their items stay quiet
+    const itemContext = attacker && isPlayerStanding(attacker) && isEnemy && procItems ? {
+        world, owner: attacker, target: t as Enemy, damage,
+        dealDamage: (target: Enemy, itemDamage: number) => damageTarget(world, events, target, itemDamage, target.pos, attacker.id, false, false),
+    } : null;
+    if (itemContext) triggerItems('onHit', itemContext);
+    if (t.hp > 0) return;
+
+    // With a partner still up, a player goes down instead of dying
+    if (!isEnemy && world.players.some(p => p !== t && isPlayerStanding(p))) return downPlayer(world, events, t as Player);
+
+    t.dead = true;
+    spawnParticle(world, t.pos, t.color, 20, 'blood');
+    if (isEnemy) {
+        world.enemiesKilled++;
+        world.players.forEach(p => { if (isPlayerStanding(p)) p.score += 100; });
+        if (reflected && attacker) attacker.score += REFLECT_KILL_BONUS;
+        if (itemContext) triggerItems('onKill', { ...itemContext, damage: 0 });
+        getEnemyArchetype((t as Enemy).enemyType).onDeath?.({
+            world, enemy: t as Enemy,
+            spawn: (type, pos, scale) => spawnMinion(world, type, pos, scale),
+        });
+
+        // Loot: the boss always drops its own item plus an uncommon
+        if (t.type === 'boss') {
+            spawnItemDrop(world, t.pos, rollItem(world.rng, 'boss'));
+            spawnItemDrop(world, t.pos, rollItem(world.rng, 'uncommon'));
+        } else if (random(world.rng) < ITEM_DROP_CHANCE) {
+            spawnItemDrop(world, t.pos, rollItem(world.rng));
+        }
+        events.push({ type: 'enemyKilled', enemyId: t.id, isBoss: t.type === 'boss', killerId: attackerId, reflected });
+    } else {
+        events.push({ type: 'playerDied', playerId: t.id });
+    }
+};
+
+const downPlayer = (world: GameWorld, events: GameEvent[], p: Player) => {
+    p.hp = 0;
+    p.downed = true;
+    p.bleedOut = BLEED_OUT_TIME;
+    p.reviveProgress = 0;
+    p.vel.x = 0; p.vel.y = 0;
+    p.dashTime = 0; p.meleeTime = 0; p.isInvulnerable = false;
+    spawnParticle(world, p.pos, p.color, 20, 'blood');
+    events.push({ type: 'playerDowned', playerId: p.id });
+};
+
+// A standing partner within REVIVE_RADIUS revives a downed player and holds off the bleed-out;
+// walking away loses progress twice as fast as it was made.
+const updateDownedPlayers = (world: GameWorld, events: GameEvent[]) => {
+    world.players.forEach(p => {
+        if (!p.downed) return;
+        const reviver = world.players.find(o => isPlayerStanding(o) && Math.hypot(o.pos.x - p.pos.x, o.pos.y - p.pos.y) < REVIVE_RADIUS);
+        if (reviver) {
+            if (++p.reviveProgress < REVIVE_TIME) return;
+            p.downed = false;
+            p.hp = Math.round(p.maxHp * REVIVE_HP_FRACTION);
+            p.reviveProgress = 0;
+            world.revives++;
+            spawnParticle(world, p.pos, '#4ade80', 20, 'spark');
+            events.push({ type: 'playerRevived', playerId: p.id, reviverId: reviver.id });
+            return;
+        }
+        p.reviveProgress = Math.max(0, p.reviveProgress - 2);
+        if (--p.bleedOut > 0) return;
+        p.downed = false;
+        p.dead = true;
+        spawnParticle(world, p.pos, p.color, 20, 'blood');
+        events.push({ type: 'playerDied', playerId: p.id });
+    });
+};
+
+// Cover soaks up shots from either side until it breaks, and stays broken for the rest of the level.
+const damageCover = (world: GameWorld, events: GameEvent[], cover: EnvironmentObject, damage: number) => {
+    world.coverDamage[cover.id] = (world.coverDamage[cover.id] || 0) + damage;
+    if (!isCoverBroken(cover, world)) return;
+    spawnParticle(world, cover.pos, cover.color, 20, 'smoke');
+    events.push({ type: 'coverBroken', coverId: cover.id });
+};
+
+// Lava and acid burn whoever stands in them and springs heal players, a pulse every HAZARD_INTERVAL ticks.
+const applyTerrainHazards = (world: GameWorld, events: GameEvent[]) => {
+    if (world.waveTimer % HAZARD_INTERVAL !== 0) return;
+    const pulse = HAZARD_INTERVAL / TICK_RATE;
+    world.players.forEach(p => {
+        if (!isPlayerStanding(p)) return;
+        const ground = getTerrainEffect(getTerrainAt(p.pos.x, p.pos.y, world));
+        if (ground.damagePerSecond > 0 && !p.isInvulnerable) damageTarget(world, events, p, ground.damagePerSecond * pulse, p.pos, null, false);
+        if (ground.healPerSecond > 0 && !p.dead && p.hp < p.maxHp) {
+            p.hp = Math.min(p.maxHp, p.hp + ground.healPerSecond * pulse);
+            spawnParticle(world, p.pos, ground.color, 4, 'spark');
+        }
+    });
+    world.enemies.forEach(e => {
+        if (!isTargetable(e)) return;
+        const ground = getTerrainEffect(getTerrainAt(e.pos.x, e.pos.y, world));
+        if (ground.damagePerSecond > 0) damageTarget(world, events, e, ground.damagePerSecond * pulse, e.pos, null, false);
+    });
+};
+
+// A swing damages enemies in its arc once, when it starts; reflection runs for its whole duration.
+const swingMelee = (world: GameWorld, events: GameEvent[], p: Player) => {
+    const { color } = MELEE_STATS[p.role];
+    const damage = MELEE_STATS[p.role].damage * (1 + getItemStat(p, 'damage'));
+    p.meleeTime = MELEE_DURATION;
+    p.meleeCooldown = MELEE_COOLDOWN;
+    world.enemies.forEach(e => {
+        if (isTargetable(e) && isInArc(p, e.pos, e.radius)) {
+            damageTarget(world, events, e, damage, e.pos, p.id, false);
+            e.vel.x += Math.cos(p.rotation) * 6; e.vel.y += Math.sin(p.rotation) * 6;
+        }
+    });
+    spawnParticle(world, { x: p.pos.x + Math.cos(p.rotation) * 40, y: p.pos.y + Math.sin(p.rotation) * 40 }, color, 4, 'spark');
+};
+
+const reflectBullet = (world: GameWorld, b: Bullet, p: Player) => {
+    const speed = Math.hypot(b.vel.x, b.vel.y) * REFLECT_SPEED_MULTIPLIER;
+    b.vel = { x: Math.cos(p.rotation) * speed, y: Math.sin(p.rotation) * speed };
+    b.ownerId = p.id;
+    b.isReflected = true;
+    b.damage *= REFLECT_DAMAGE_MULTIPLIER;
+    b.color = REFLECTED_COLOR;
+    b.lifeTime = Math.max(b.lifeTime, 60);
+    spawnParticle(world, b.pos, REFLECTED_COLOR, 6, 'spark');
+};
+
+/**
+ * Movement physics for one player over one tick. Kept separate from stepWorld so a
+ * network guest can predict its own player with exactly the host's rules.
+ */
+export const applyPlayerMovement = (world: GameWorld, p: Player, controls: PlayerInput) => {
+    // Dash along the stick, or along the aim when standing still
+    if (controls.dash && p.dashCooldown <= 0) {
+        const moving = controls.move.x !== 0 || controls.move.y !== 0;
+        const angle = moving ? Math.atan2(controls.move.y, controls.move.x) : p.rotation;
+        p.vel.x = Math.cos(angle) * DASH_SPEED; p.vel.y = Math.sin(angle) * DASH_SPEED;
+        p.dashTime = DASH_DURATION;
+        p.dashCooldown = DASH_COOLDOWN;
+        p.isInvulnerable = true;
+    }
+
+    const speedBonus = 1 + getItemStat(p, 'moveSpeed');
+    const ground = getTerrainEffect(getTerrainAt(p.pos.x, p.pos.y, world));
+    const accel = ACCELERATION * speedBonus * ground.acceleration;
+    p.vel.x += controls.move.x * accel; p.vel.y += controls.move.y * accel;
+    p.vel.x *= ground.friction; p.vel.y *= ground.friction;
+
+    const maxSpeed = p.dashTime > 0 ? DASH_SPEED : MAX_SPEED * speedBonus;
+    const currSpeed = Math.hypot(p.vel.x, p.vel.y);
+    if (currSpeed > maxSpeed) {
+        p.vel.x = (p.vel.x / currSpeed) * maxSpeed;
+        p.vel.y = (p.vel.y / currSpeed) * maxSpeed;
+    }
+
+    if (p.dashTime > 0) {
+        spawnParticle(world, p.pos, p.color, 2, 'smoke');
+        if (--p.dashTime === 0) p.isInvulnerable = false;
+    }
+    if (p.dashCooldown > 0) p.dashCooldown--;
+
+    p.pos.x += p.vel.x; p.pos.y += p.vel.y;
+    checkEnvironmentCollision(p, world);
+    p.animFrame += currSpeed * 0.15;
+};
+
+export const updateParticles = (world: GameWorld) => {
+  world.particles.forEach(p => {
+    p.pos.x += p.vel.x; p.pos.y += p.vel.y;
+    p.life--;
+    p.vel.x *= 0.9; p.vel.y *= 0.9;
+  });
+  removeDead(world.particles, p => p.life <= 0, p => releaseParticle(world, p));
+};
+
+/**
+ * Advances the simulation by one update. The world is mutated in place; the returned
+ * events describe what happened so the caller can react (UI, audio, state transitions).
+ */
+export const stepWorld = (world: GameWorld, input: FrameInput): GameEvent[] => {
+  const events: GameEvent[] = [];
+  if (world.outcome !== 'playing') return events;
+
+  const activePlayers = world.players.filter(isPlayerStanding);
+
+  if (activePlayers.length === 0) {
+    world.outcome = 'defeat';
+    events.push({ type: 'gameOver' });
+    return events;
+  }
+
+  const boss = world.enemies.find(e => e.type === 'boss');
+  if (world.bossSpawned && !boss) {
+    // Leave a moment to grab the boss loot before warping out
+    if (world.bossKilledAt === null) world.bossKilledAt = world.waveTimer;
+    if (world.items.length === 0 || world.waveTimer - world.bossKilledAt >= BOSS_LOOT_GRACE) {
+      world.outcome = 'victory';
+      events.push({ type: 'levelComplete' });
+      return events;
+    }
+  }
+
+  world.waveTimer++;
+  if (!world.bossSpawned) {
+    if (world.waveTimer % Math.round(ENEMY_SPAWN_INTERVAL / world.params.spawnRate) === 0 && world.enemies.length < 30) spawnEnemy(world);
+    if (world.crystals.length < 15 && world.waveTimer % 60 === 0) spawnCrystal(world); // Spawn crystals often
+    if (world.crates.length < 5 && world.waveTimer % 300 === 0) spawnCrate(world);
+
+    if (world.crystalsCollected >= world.crystalsToBoss) {
+      spawnEnemy(world, true);
+      world.bossSpawned = true;
+      events.push({ type: 'bossSpawned' });
+    }
+  }
+
+  // Enemies barely move before the AI loop, so one hash serves auto-aim and flocking
+  let enemyGrid = createSpatialHash(world.enemies);
+
+  // Player Update
+  world.players.forEach(p => {
+    if (!isPlayerStanding(p)) return;
+
+    const controls = input[p.id] || IDLE_INPUT;
+    const force = { x: controls.move.x * ACCELERATION, y: controls.move.y * ACCELERATION };
+
+    // Auto Aim Logic
+    const target = findNearestSpatial(enemyGrid, p.pos, 1200, isTargetable);
+
+    if (target) {
+       p.rotation = Math.atan2(target.pos.y - p.pos.y, target.pos.x - p.pos.x);
+    } else if (Math.abs(force.x) > 0 || Math.abs(force.y) > 0) {
+       p.rotation = Math.atan2(force.y, force.x);
+    }
+
+    // Shooting
+    if (p.reloadTime > 0) {
+        if (--p.reloadTime === 0) finishReload(p);
+    } else if (controls.fire && p.cooldown <= 0) {
+        fireWeapon(world, p);
+    }
+
+    // Melee
+    if (p.meleeTime > 0) p.meleeTime--;
+    if (p.meleeCooldown > 0) p.meleeCooldown--;
+    else if (controls.melee) swingMelee(world, events, p);
+
+    applyPlayerMovement(world, p, controls);
+    if (p.cooldown > 0) p.cooldown--;
+  });
+
+  updateDownedPlayers(world, events);
+
+  // Interaction with Crate/Pickups
+  world.players.filter(isPlayerStanding).forEach(p => {
+      // Crates (Touch to open)
+      world.crates.forEach(c => {
+           if (c.dead) return;
+           if (Math.hypot(c.pos.x - p.pos.x, c.pos.y - p.pos.y) < p.radius + c.radius) {
+               c.dead = true;
+               spawnParticle(world, c.pos, '#f97316', 10, 'spark');
+               spawnPickup(world, c.pos);
+           }
+      });
+
+      // Pickups: the same gun (no better tier) tops up ammo on touch; anything else is swapped with interact
+      const controls = input[p.id] || IDLE_INPUT;
+      let nearPickup = false;
+      world.pickups.forEach(pk => {
+          if (pk.dead) return;
+          if (Math.hypot(pk.pos.x - p.pos.x, pk.pos.y - p.pos.y) >= p.radius + pk.radius) return;
+          nearPickup = true;
+          if (pk.weaponType === p.weapon && WEAPON_TIERS.indexOf(pk.tier) <= WEAPON_TIERS.indexOf(p.weaponTier)) {
+              pk.dead = true;
+              p.reserveAmmo += Math.round(getWeapon(pk.weaponType).reserve / 2);
+              spawnParticle(world, p.pos, TIER_STATS[pk.tier].color, 6, 'spark');
+          } else if (controls.interact) {
+              pk.dead = true;
+              equipWeapon(p, pk.weaponType, pk.tier, pk.power);
+              spawnParticle(world, p.pos, TIER_STATS[pk.tier].color, 10, 'spark');
+              events.push({ type: 'weaponPickup', playerId: p.id, weapon: pk.weaponType, tier: pk.tier });
+          }
+      });
+
+      // Interact away from pickups reloads early
+      if (controls.interact && !nearPickup && p.reloadTime === 0 && p.reserveAmmo > 0 && p.ammo < getMagazineSize(p.weapon, p.weaponTier)) {
+          startReload(world, p);
+      }
+  });
+  // Items: first to touch one takes it
+  world.items.forEach(it => {
+      if (it.dead) return;
+      const taker = world.players.find(p => isPlayerStanding(p) && Math.hypot(it.pos.x - p.pos.x, it.pos.y - p.pos.y) < p.radius + it.radius);
+      if (!taker) return;
+      it.dead = true;
+      addItem(taker, it.itemId);
+      spawnParticle(world, it.pos, it.color, 12, 'spark');
+      events.push({ type: 'itemPickup', playerId: taker.id, itemId: it.itemId, stacks: taker.items[it.itemId] });
+  });
+
+  // Unclaimed pickups and items expire
+  world.pickups.forEach(pk => { if (--pk.lifeTime <= 0) pk.dead = true; });
+  world.items.forEach(it => { if (--it.lifeTime <= 0) it.dead = true; });
+  removeDead(world.items, it => it.dead);
+  removeDead(world.crates, c => c.dead);
+  removeDead(world.pickups, p => p.dead);
+
+  // Enemy AI
+  updateNavigation(world);
+  const enemies = world.enemies;
+  enemies.forEach(e => {
+    if (e.dead) return;
+    // Tunnelling enemies are under the ground, not on it
+    const ground = getTerrainEffect(e.phase === 'burrowed' ? null : getTerrainAt(e.pos.x, e.pos.y, world));
+    let target: Player | undefined;
+    let minDist = Infinity;
+    for (const p of activePlayers) {
+      // Someone downed earlier this tick is no longer a target
+      if (!isPlayerStanding(p)) continue;
+      const d = Math.hypot(p.pos.x - e.pos.x, p.pos.y - e.pos.y);
+      if (d < minDist) { minDist = d; target = p; }
+    }
+
+    if (target) {
+      const dx = target.pos.x - e.pos.x;
+      const dy = target.pos.y - e.pos.y;
+      const dist = Math.hypot(dx, dy);
+      e.rotation = Math.atan2(dy, dx);
+
+      // Steering and attacks come from the archetype; healer buffs make both stronger
+      const archetype = getEnemyArchetype(e.enemyType);
+      const buffed = e.buffTime > 0;
+      const ctx: EnemyBehaviorContext = {
+          world, enemy: e, target, dist, angle: e.rotation,
+          // Tunnelling enemies go straight under everything
+          heading: e.phase === 'burrowed' ? e.rotation : getFlowHeading(world, e.pos) ?? e.rotation,
+          speed: archetype.speed / e.visuals.scale * (buffed ? BUFF_SPEED : 1) * ground.acceleration,
+          force: { x: 0, y: 0 },
+          fire: (angle, speed, bulletType = 'enemy_normal', from = e.pos) =>
+              spawnBullet(world, from, { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed }, e.id, bulletType, buffed ? BUFF_DAMAGE : 1),
+          hitPlayer: (p, damage) => { if (!p.isInvulnerable) damageTarget(world, events, p, damage, p.pos, null, false); },
+          spawn: (type, pos, scale) => spawnMinion(world, type, pos, scale),
+      };
+      if (e.type === 'boss') {
+          const phase = getBossPhase(world.boss, e.hp / e.maxHp);
+          if (phase > world.boss.phase) {
+              enterBossPhase(ctx, phase);
+              spawnParticle(world, e.pos, '#ef4444', 30, 'spark');
+              events.push({ type: 'bossPhase', phase });
+          }
+      }
+      archetype.update(ctx);
+      const moveForce = ctx.force;
+
+      // Flocking (tunnelling enemies pass underneath everything)
+      querySpatial(enemyGrid, e.pos, e.radius + 20 + FLOCK_MARGIN).forEach(other => {
+          if (other === e || e.phase === 'burrowed' || other.phase === 'burrowed') return;
+          const diffX = e.pos.x - other.pos.x;
+          const diffY = e.pos.y - other.pos.y;
+          const d = Math.hypot(diffX, diffY);
+          const repelDist = e.radius + other.radius + 20;
+          if (d < repelDist && d > 0) {
+              const repelForce = (repelDist - d) / repelDist;
+              moveForce.x += (diffX / d) * repelForce * 0.8;
+              moveForce.y += (diffY / d) * repelForce * 0.8;
+          }
+      });
+
+      e.vel.x += moveForce.x; e.vel.y += moveForce.y;
+
+      if (e.attackCooldown > 0) e.attackCooldown--;
+      if (e.phaseTime > 0) e.phaseTime--;
+      if (e.buffTime > 0) e.buffTime--;
+    }
+    e.vel.x *= ground.friction; e.vel.y *= ground.friction;
+    e.pos.x += e.vel.x; e.pos.y += e.vel.y;
+    checkEnvironmentCollision(e, world);
+    e.animFrame += Math.hypot(e.vel.x, e.vel.y) * 0.1;
+  });
+
+  applyTerrainHazards(world, events);
+
+  // Crystal Collection
+  const crystalGrid = createSpatialHash(world.crystals);
+  for (const p of activePlayers) {
+     // Hazards or an enemy may have downed them earlier this tick
+     if (!isPlayerStanding(p)) continue;
+     for (const c of querySpatial(crystalGrid, p.pos, CRYSTAL_PICKUP_RANGE)) {
+       if (c.dead || Math.hypot(p.pos.x - c.pos.x, p.pos.y - c.pos.y) >= CRYSTAL_PICKUP_RANGE) continue;
+       c.dead = true;
+       spawnParticle(world, c.pos, '#a855f7', 15, 'spark');
+       world.crystalsCollected++;
+       p.score += 50;
+       events.push({ type: 'crystalCollected', playerId: p.id, total: world.crystalsCollected });
+     }
+  }
+  removeDead(world.crystals, c => c.dead);
+
+  // Enemies have moved and new ones may have spawned
+  enemyGrid = createSpatialHash(world.enemies);
+
+  // Bullet Updates (Collision)
+  world.bullets.forEach(b => {
+    const projectile = getWeapon(b.bulletType).projectile;
+
+    // Homing
+    if (projectile.homing) {
+      const t = findNearestSpatial(enemyGrid, b.pos, projectile.homing.range, isTargetable);
+      if (t) {
+          const targetAngle = Math.atan2(t.pos.y - b.pos.y, t.pos.x - b.pos.x);
+          const currentSpeed = Math.hypot(b.vel.x, b.vel.y);
+          b.vel.x += (Math.cos(targetAngle)*currentSpeed - b.vel.x) * projectile.homing.strength;
+          b.vel.y += (Math.sin(targetAngle)*currentSpeed - b.vel.y) * projectile.homing.strength;
+      }
+    }
+
+    b.pos.x += b.vel.x; b.pos.y += b.vel.y;
+    b.lifeTime--;
+
+    // Environment Wall: bouncing bullets flip whichever axis carried them into the wall
+    const wall = getSolidAt(b.pos.x, b.pos.y, world);
+    if (wall) {
+        if (wall.type === 'cover') damageCover(world, events, wall, b.damage);
+        if (b.bouncesLeft > 0) {
+            b.bouncesLeft--;
+            const prevX = b.pos.x - b.vel.x;
+            const prevY = b.pos.y - b.vel.y;
+            if (!isInsideBuilding(prevX, b.pos.y, world)) b.vel.x = -b.vel.x;
+            else if (!isInsideBuilding(b.pos.x, prevY, world)) b.vel.y = -b.vel.y;
+            else { b.vel.x = -b.vel.x; b.vel.y = -b.vel.y; }
+            b.pos.x = prevX; b.pos.y = prevY;
+            spawnParticle(world, b.pos, b.color, 3, 'spark');
+        } else {
+            b.lifeTime = 0; spawnParticle(world, b.pos, '#555', 5, 'smoke');
+        }
+    }
+
+    if (b.lifeTime <= 0) return;
+
+    // Reflection
+    let playerOwned = isPlayerId(world, b.ownerId);
+    if (!playerOwned) {
+        const parrying = activePlayers.find(p => isPlayerStanding(p) && p.meleeTime > 0 && isInArc(p, b.pos, b.radius));
+        if (parrying) {
+            reflectBullet(world, b, parrying);
+            playerOwned = true;
+        }
+    }
+
+    // Entity Collision: enemies come from the hash; players and crates are only a handful
+    const targets: (Player | Enemy)[] = playerOwned ? querySpatial(enemyGrid, b.pos, b.radius) : world.players;
+    const crateTargets = playerOwned ? world.crates : [];
+
+    // Hit Crate
+    for (const c of crateTargets) {
+        if (c.dead) continue;
+        if (Math.hypot(b.pos.x - c.pos.x, b.pos.y - c.pos.y) < c.radius + b.radius) {
+            c.hp -= b.damage;
+            b.lifeTime = 0;
+            spawnParticle(world, b.pos, '#f97316', 3, 'spark');
+            if (c.hp <= 0) {
+                c.dead = true;
+                spawnParticle(world, c.pos, '#f97316', 15, 'spark');
+                spawnPickup(world, c.pos);
+            }
+            break;
+        }
+    }
+
+    // Hit Enemies/Players
+    if (b.lifeTime > 0) {
+        for (const t of targets) {
+            if ((t as Entity).dead) continue;
+            if (t.type !== 'player' && !isTargetable(t as Enemy)) continue; // Burrowed
+            if (t.type === 'player' && (t as Player).downed) continue; // Shots pass over the fallen
+            if (t.type === 'player' && (t as Player).isInvulnerable) continue; // Dash i-frames
+            if (b.hitIds.includes(t.id)) continue;
+            if (Math.hypot(b.pos.x - t.pos.x, b.pos.y - t.pos.y) < t.radius + b.radius) {
+                if (b.pierceLeft > 0) { b.pierceLeft--; b.hitIds.push(t.id); }
+                else b.lifeTime = 0;
+                damageTarget(world, events, t, b.damage, b.pos, playerOwned ? b.ownerId : null, b.isReflected);
+                break;
+            }
+        }
+    }
+  });
+
+  removeDead(world.bullets, b => b.lifeTime <= 0, b => releaseBullet(world, b));
+  removeDead(world.enemies, e => e.dead);
+
+  updateParticles(world);
+
+  return events;
+};
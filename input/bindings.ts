@@ -0,0 +1,53 @@
+import { BindableAction, ControlBindings, PlayerBindings } from '../types';
+
+export const BINDABLE_ACTIONS: BindableAction[] = ['up', 'down', 'left', 'right', 'fire', 'dash', 'melee', 'interact'];
+
+export const ACTION_LABELS: Record<BindableAction, string> = {
+  up: 'Move Up',
+  down: 'Move Down',
+  left: 'Move Left',
+  right: 'Move Right',
+  fire: 'Shoot',
+  dash: 'Dash',
+  melee: 'Melee / Parry',
+  interact: 'Interact',
+};
+
+// Standard-mapping gamepad buttons: d-pad for digital movement, RT to shoot, A to dash, B to swing, X to interact.
+const DEFAULT_GAMEPAD_BUTTONS: Record<BindableAction, number> = {
+  up: 12, down: 13, left: 14, right: 15, fire: 7, dash: 0, melee: 1, interact: 2,
+};
+
+export const createDefaultBindings = (): ControlBindings => ({
+  p1: {
+    keys: { up: 'KeyW', down: 'KeyS', left: 'KeyA', right: 'KeyD', fire: 'Space', dash: 'ShiftLeft', melee: 'KeyQ', interact: 'KeyE' },
+    gamepadIndex: 0,
+    gamepadButtons: { ...DEFAULT_GAMEPAD_BUTTONS },
+  },
+  p2: {
+    keys: { up: 'ArrowUp', down: 'ArrowDown', left: 'ArrowLeft', right: 'ArrowRight', fire: 'Enter', dash: 'ShiftRight', melee: 'Slash', interact: 'Period' },
+    gamepadIndex: 1,
+    gamepadButtons: { ...DEFAULT_GAMEPAD_BUTTONS },
+  },
+});
+
+const ARROWS: Record<string, string> = { ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' };
+
+// Short label for a KeyboardEvent.code, e.g. 'KeyW' -> 'W', 'ShiftLeft' -> 'L-Shift'.
+export const formatKey = (code: string): string => {
+  if (ARROWS[code]) return ARROWS[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.endsWith('Left')) return `L-${code.slice(0, -4)}`;
+  if (code.endsWith('Right')) return `R-${code.slice(0, -5)}`;
+  return code;
+};
+
+const BUTTON_NAMES = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'LS', 'RS', 'D-Up', 'D-Down', 'D-Left', 'D-Right'];
+
+export const formatGamepadButton = (index: number): string => BUTTON_NAMES[index] || `Button ${index}`;
+
+export const describeMovement = (bindings: PlayerBindings): string => {
+  const { up, left, down, right } = bindings.keys;
+  return [up, left, down, right].map(formatKey).join(' ');
+};
@@ -0,0 +1,20 @@
+// Thin wrapper over the browser Gamepad API so the rest of the input layer never touches `navigator`.
+export interface GamepadSnapshot {
+  axes: readonly number[];
+  pressed: boolean[];
+}
+
+export const readGamepads = (): (GamepadSnapshot | null)[] => {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+  return Array.from(navigator.getGamepads(), pad => pad && pad.connected
+    ? { axes: pad.axes, pressed: pad.buttons.map(b => b.pressed) }
+    : null);
+};
+
+// Radial deadzone with rescaling, so small stick drift is ignored but full deflection still reaches 1.
+export const applyDeadzone = (x: number, y: number, deadzone: number = 0.2): { x: number; y: number } => {
+  const magnitude = Math.hypot(x, y);
+  if (magnitude < deadzone) return { x: 0, y: 0 };
+  const scaled = Math.min(1, (magnitude - deadzone) / (1 - deadzone));
+  return { x: (x / magnitude) * scaled, y: (y / magnitude) * scaled };
+};
@@ -0,0 +1,36 @@
+import { BindableAction, ControlBindings, FrameInput, PlayerBindings, PlayerInput } from '../types';
+import { GamepadSnapshot, applyDeadzone } from './gamepad';
+
+const readPlayer = (keys: ReadonlySet<string>, pad: GamepadSnapshot | null, bindings: PlayerBindings): PlayerInput => {
+  const key = (action: BindableAction) => keys.has(bindings.keys[action]);
+  const button = (action: BindableAction) => !!pad?.pressed[bindings.gamepadButtons[action]];
+  const digital = (neg: boolean, pos: boolean) => (pos ? 1 : 0) - (neg ? 1 : 0);
+
+  // Keyboard and d-pad give the old fixed steps; the left stick gives an analog vector.
+  let move = {
+    x: digital(key('left') || button('left'), key('right') || button('right')),
+    y: digital(key('up') || button('up'), key('down') || button('down')),
+  };
+  if (move.x === 0 && move.y === 0 && pad) {
+    move = applyDeadzone(pad.axes[0] || 0, pad.axes[1] || 0);
+  }
+
+  return {
+    move,
+    fire: key('fire') || button('fire'),
+    dash: key('dash') || button('dash'),
+    interact: key('interact') || button('interact'),
+    melee: key('melee') || button('melee'),
+  };
+};
+
+// Resolves every bound player's actions for this tick from the current device state.
+export const readFrameInput = (keys: ReadonlySet<string>, gamepads: (GamepadSnapshot | null)[], bindings: ControlBindings): FrameInput => {
+  const input: FrameInput = {};
+  for (const playerId of Object.keys(bindings)) {
+    const playerBindings = bindings[playerId];
+    const pad = playerBindings.gamepadIndex === null ? null : gamepads[playerBindings.gamepadIndex] || null;
+    input[playerId] = readPlayer(keys, pad, playerBindings);
+  }
+  return input;
+};
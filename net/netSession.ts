@@ -0,0 +1,116 @@
+import { ClientMessage, PeerMessage, RELAY_PORT, ServerMessage } from './protocol';
+
+export type NetRole = 'host' | 'guest';
+
+export type NetEvent =
+  | { type: 'peer-joined' }
+  | { type: 'peer-left' }
+  | { type: 'message'; payload: PeerMessage }
+  | { type: 'disconnected' };
+
+export interface NetSession {
+  role: NetRole;
+  code: string;
+  peerConnected: boolean;
+  // Round trip to the other player through the relay, refreshed every second.
+  rttMs: number | null;
+  send: (payload: PeerMessage) => void;
+  subscribe: (listener: (event: NetEvent) => void) => () => void;
+  close: () => void;
+}
+
+const PING_INTERVAL_MS = 1000;
+const CONNECT_TIMEOUT_MS = 5000;
+
+export const getDefaultRelayUrl = (): string =>
+  `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.hostname || 'localhost'}:${RELAY_PORT}`;
+
+/**
+ * Opens a relay connection and either creates a lobby (host) or joins one by code (guest).
+ * Resolves once the relay has confirmed the lobby; rejects with a readable message otherwise.
+ */
+export const connectToLobby = (url: string, request: { role: 'host' } | { role: 'guest'; code: string }): Promise<NetSession> =>
+  new Promise((resolve, reject) => {
+    const socket = new WebSocket(url);
+    const listeners = new Set<(event: NetEvent) => void>();
+    let pingTimer = 0;
+    let settled = false;
+
+    const emit = (event: NetEvent) => listeners.forEach(listener => listener(event));
+    const sendRaw = (message: ClientMessage) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    };
+
+    const session: NetSession = {
+      role: request.role,
+      code: '',
+      peerConnected: request.role === 'guest',
+      rttMs: null,
+      send: payload => sendRaw({ type: 'relay', payload }),
+      subscribe: listener => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      close: () => {
+        window.clearInterval(pingTimer);
+        socket.close();
+      },
+    };
+
+    const fail = (message: string) => {
+      if (settled) return;
+      settled = true;
+      socket.close();
+      reject(new Error(message));
+    };
+    const timeout = window.setTimeout(() => fail(`Relay at ${url} did not answer`), CONNECT_TIMEOUT_MS);
+
+    socket.onopen = () => sendRaw(request.role === 'host' ? { type: 'create' } : { type: 'join', code: request.code });
+    socket.onerror = () => fail(`Could not reach the relay at ${url}. Is \`npm run relay\` running?`);
+    socket.onclose = () => {
+      window.clearInterval(pingTimer);
+      if (settled) emit({ type: 'disconnected' });
+      else fail('The relay closed the connection');
+    };
+
+    socket.onmessage = e => {
+      const message = JSON.parse(e.data) as ServerMessage;
+      switch (message.type) {
+        case 'created':
+        case 'joined':
+          window.clearTimeout(timeout);
+          session.code = message.code;
+          settled = true;
+          pingTimer = window.setInterval(() => {
+            if (session.peerConnected) session.send({ kind: 'ping', sentAt: performance.now() });
+          }, PING_INTERVAL_MS);
+          resolve(session);
+          break;
+        case 'error':
+          if (!settled) {
+            window.clearTimeout(timeout);
+            fail(message.message);
+          } else {
+            console.error('Relay error', message.message);
+          }
+          break;
+        case 'peer-joined':
+          session.peerConnected = true;
+          emit({ type: 'peer-joined' });
+          break;
+        case 'peer-left':
+          session.peerConnected = false;
+          session.rttMs = null;
+          emit({ type: 'peer-left' });
+          break;
+        case 'relay': {
+          const payload = message.payload;
+          // Latency probes are answered here so game code only ever sees game traffic.
+          if (payload.kind === 'ping') session.send({ kind: 'pong', sentAt: payload.sentAt });
+          else if (payload.kind === 'pong') session.rttMs = performance.now() - payload.sentAt;
+          else emit({ type: 'message', payload });
+          break;
+        }
+      }
+    };
+  });
@@ -0,0 +1,49 @@
+import { Bullet, Crate, Enemy, Entity, GameWorld, ItemDrop, LevelInfo, NarratorLine, Pickup, Player, PlayerInput, RunStats } from '../types';
+
+// Default port of the relay in server/relay.ts.
+export const RELAY_PORT = 8787;
+
+// The host owns the simulation as p1; the guest drives p2.
+export const HOST_PLAYER_ID = 'p1';
+export const GUEST_PLAYER_ID = 'p2';
+
+// --- Client <-> relay ---
+export type ClientMessage =
+  | { type: 'create' }
+  | { type: 'join'; code: string }
+  | { type: 'relay'; payload: PeerMessage };
+
+export type ServerMessage =
+  | { type: 'created'; code: string }
+  | { type: 'joined'; code: string }
+  | { type: 'peer-joined' }
+  | { type: 'peer-left' }
+  | { type: 'error'; message: string }
+  | { type: 'relay'; payload: PeerMessage };
+
+// --- Host <-> guest, forwarded verbatim by the relay ---
+export interface WorldSnapshot {
+  tick: number;
+  players: Player[];
+  enemies: Enemy[];
+  bullets: Bullet[];
+  crystals: Entity[];
+  crates: Crate[];
+  pickups: Pickup[];
+  items: ItemDrop[];
+  crystalsCollected: number;
+  coverDamage: Record<string, number>;
+  bossSpawned: boolean;
+  outcome: GameWorld['outcome'];
+}
+
+export type PeerMessage =
+  | { kind: 'start'; runSeed: string; levelInfo: LevelInfo }
+  | { kind: 'level-end'; outcome: 'victory' | 'defeat'; stats: RunStats }
+  | { kind: 'input'; seq: number; input: PlayerInput }
+  // `ackSeq` is the last guest input the host has simulated, for client-side reconciliation.
+  | { kind: 'snapshot'; ackSeq: number; snapshot: WorldSnapshot }
+  // Narrator lines are written on the host and shown on both screens.
+  | { kind: 'comms'; line: NarratorLine }
+  | { kind: 'ping'; sentAt: number }
+  | { kind: 'pong'; sentAt: number };
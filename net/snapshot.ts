@@ -0,0 +1,75 @@
+import { Entity, GameWorld } from '../types';
+import { spawnParticle, updateParticles } from '../engine/world';
+import { WorldSnapshot } from './protocol';
+
+// Everything a guest needs to draw the host's world. Particles stay local to each side.
+export const createSnapshot = (world: GameWorld, tick: number): WorldSnapshot => ({
+  tick,
+  players: world.players,
+  enemies: world.enemies,
+  bullets: world.bullets,
+  crystals: world.crystals,
+  crates: world.crates,
+  pickups: world.pickups,
+  items: world.items,
+  crystalsCollected: world.crystalsCollected,
+  coverDamage: world.coverDamage,
+  bossSpawned: world.bossSpawned,
+  outcome: world.outcome,
+});
+
+/**
+ * Merges incoming entities into the existing objects by id, so renderer interpolation
+ * (keyed by object) keeps working across snapshots. Returns the entities that vanished.
+ */
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[]): { merged: T[]; removed: T[] } => {
+  const byId = new Map(current.map(item => [item.id, item]));
+  const merged = incoming.map(item => {
+    const existing = byId.get(item.id);
+    if (!existing) return item;
+    byId.delete(item.id);
+    return Object.assign(existing, item);
+  });
+  return { merged, removed: Array.from(byId.values()) };
+};
+
+export const applySnapshot = (world: GameWorld, snapshot: WorldSnapshot) => {
+  world.players = mergeById(world.players, snapshot.players).merged;
+  world.bullets = mergeById(world.bullets, snapshot.bullets).merged;
+  world.pickups = mergeById(world.pickups, snapshot.pickups).merged;
+
+  // The guest never simulates hits, so it derives the usual bursts from what disappeared.
+  const enemies = mergeById(world.enemies, snapshot.enemies);
+  enemies.removed.forEach((e: Entity) => spawnParticle(world, e.pos, e.color, 20, 'blood'));
+  world.enemies = enemies.merged;
+
+  const crystals = mergeById(world.crystals, snapshot.crystals);
+  crystals.removed.forEach(c => spawnParticle(world, c.pos, '#a855f7', 15, 'spark'));
+  world.crystals = crystals.merged;
+
+  const crates = mergeById(world.crates, snapshot.crates);
+  crates.removed.forEach(c => spawnParticle(world, c.pos, '#f97316', 15, 'spark'));
+  world.crates = crates.merged;
+
+  const items = mergeById(world.items, snapshot.items);
+  items.removed.forEach(it => spawnParticle(world, it.pos, it.color, 12, 'spark'));
+  world.items = items.merged;
+
+  world.crystalsCollected = snapshot.crystalsCollected;
+  world.coverDamage = snapshot.coverDamage;
+  world.bossSpawned = snapshot.bossSpawned;
+  world.outcome = snapshot.outcome;
+  world.waveTimer = snapshot.tick;
+};
+
+// Dead reckoning between snapshots: carry everything the guest doesn't predict along its last velocity.
+export const extrapolateWorld = (world: GameWorld, localPlayerId: string) => {
+  world.players.forEach(p => {
+    if (p.id === localPlayerId || p.dead || p.downed) return;
+    p.pos.x += p.vel.x; p.pos.y += p.vel.y;
+  });
+  world.enemies.forEach(e => { e.pos.x += e.vel.x; e.pos.y += e.vel.y; });
+  world.bullets.forEach(b => { b.pos.x += b.vel.x; b.pos.y += b.vel.y; });
+  world.waveTimer++;
+  updateParticles(world);
+};
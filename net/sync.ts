@@ -0,0 +1,96 @@
+import { GameWorld, PlayerInput } from '../types';
+import { applyPlayerMovement, createIdleInput, isPlayerStanding } from '../engine/world';
+import { PeerMessage, WorldSnapshot } from './protocol';
+import { applySnapshot, createSnapshot, extrapolateWorld } from './snapshot';
+
+// Host sends a snapshot every few ticks (20 Hz); the guest extrapolates in between.
+export const SNAPSHOT_INTERVAL = 3;
+// Guest inputs buffered beyond this are skipped so a lag spike doesn't leave the guest permanently behind.
+const MAX_BUFFERED_INPUTS = 4;
+// Unacknowledged guest inputs kept for replay; older ones are dropped if the host goes quiet.
+const MAX_PENDING_INPUTS = 120;
+
+interface SequencedInput {
+  seq: number;
+  input: PlayerInput;
+}
+
+// --- Host side ---
+export interface HostSync {
+  queue: SequencedInput[];
+  lastInput: PlayerInput;
+  ackSeq: number;
+  tick: number;
+}
+
+export const createHostSync = (): HostSync => ({ queue: [], lastInput: createIdleInput(), ackSeq: 0, tick: 0 });
+
+export const receiveGuestInput = (sync: HostSync, seq: number, input: PlayerInput) => {
+  if (seq <= sync.ackSeq) return;
+  sync.queue.push({ seq, input });
+  if (sync.queue.length > MAX_BUFFERED_INPUTS) sync.queue.splice(0, sync.queue.length - MAX_BUFFERED_INPUTS);
+};
+
+// One guest input per host tick; if none arrived in time the last one is held.
+export const takeGuestInput = (sync: HostSync): PlayerInput => {
+  const next = sync.queue.shift();
+  if (next) {
+    sync.lastInput = next.input;
+    sync.ackSeq = next.seq;
+  }
+  return sync.lastInput;
+};
+
+// The guest left: stop holding their last input so their player stands still, and start
+// sequence numbers over for whoever joins next.
+export const dropGuest = (sync: HostSync) => {
+  sync.queue = [];
+  sync.lastInput = createIdleInput();
+  sync.ackSeq = 0;
+};
+
+// Call after each host tick; returns a snapshot message when one is due.
+export const finishHostTick = (sync: HostSync, world: GameWorld): PeerMessage | null => {
+  sync.tick++;
+  if (sync.tick % SNAPSHOT_INTERVAL !== 0 && world.outcome === 'playing') return null;
+  return { kind: 'snapshot', ackSeq: sync.ackSeq, snapshot: createSnapshot(world, sync.tick) };
+};
+
+// --- Guest side ---
+export interface GuestSync {
+  localPlayerId: string;
+  seq: number;
+  pending: SequencedInput[];
+  latest: { ackSeq: number; snapshot: WorldSnapshot } | null;
+}
+
+export const createGuestSync = (localPlayerId: string): GuestSync => ({ localPlayerId, seq: 0, pending: [], latest: null });
+
+export const receiveSnapshot = (sync: GuestSync, ackSeq: number, snapshot: WorldSnapshot) => {
+  if (!sync.latest || snapshot.tick > sync.latest.snapshot.tick) sync.latest = { ackSeq, snapshot };
+};
+
+/**
+ * One guest tick: send the local input, predict the local player with it, and when a
+ * snapshot has arrived, rewind the local player to the host's state and replay the
+ * inputs the host has not simulated yet. Returns the input message to send.
+ */
+export const stepGuest = (sync: GuestSync, world: GameWorld, input: PlayerInput): PeerMessage => {
+  const message: PeerMessage = { kind: 'input', seq: ++sync.seq, input };
+  sync.pending.push({ seq: sync.seq, input });
+  if (sync.pending.length > MAX_PENDING_INPUTS) sync.pending.shift();
+
+  if (sync.latest) {
+    const { ackSeq, snapshot } = sync.latest;
+    sync.latest = null;
+    applySnapshot(world, snapshot);
+    sync.pending = sync.pending.filter(p => p.seq > ackSeq);
+    const local = world.players.find(p => p.id === sync.localPlayerId);
+    if (local && isPlayerStanding(local)) sync.pending.forEach(p => applyPlayerMovement(world, local, p.input));
+  } else {
+    extrapolateWorld(world, sync.localPlayerId);
+    const local = world.players.find(p => p.id === sync.localPlayerId);
+    if (local && isPlayerStanding(local)) applyPlayerMovement(world, local, input);
+  }
+  return message;
+};
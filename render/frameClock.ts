@@ -0,0 +1,32 @@
+import { TICK_MS, MAX_CATCH_UP_TICKS } from '../engine/constants';
+
+// Fixed-timestep bookkeeping: real time is banked and spent in whole simulation ticks.
+export interface FrameClock {
+  lastTime: number | null;
+  accumulator: number;
+}
+
+export const createFrameClock = (): FrameClock => ({ lastTime: null, accumulator: 0 });
+
+/**
+ * Banks the time since the previous frame and returns how many ticks to simulate now.
+ * `speed` scales simulated time (replays at 2x/4x). When the catch-up cap is hit (e.g. the
+ * tab was in the background) the backlog is dropped instead of fast-forwarding.
+ */
+export const advanceClock = (clock: FrameClock, now: number, speed: number = 1): number => {
+  if (clock.lastTime === null) clock.lastTime = now;
+  clock.accumulator += (now - clock.lastTime) * speed;
+  clock.lastTime = now;
+
+  const maxTicks = MAX_CATCH_UP_TICKS * Math.max(1, speed);
+  let ticks = 0;
+  while (clock.accumulator >= TICK_MS && ticks < maxTicks) {
+    clock.accumulator -= TICK_MS;
+    ticks++;
+  }
+  if (clock.accumulator >= TICK_MS) clock.accumulator = 0;
+  return ticks;
+};
+
+// How far real time has advanced into the next tick (0..1), for interpolated drawing.
+export const getClockAlpha = (clock: FrameClock): number => clock.accumulator / TICK_MS;
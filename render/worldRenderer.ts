@@ -0,0 +1,661 @@
+import { Entity, Player, Enemy, Vector2, EnvironmentObject, GameWorld, BiomePalette, TerrainType } from '../types';
+import { getCameraCenter, MELEE_STATS } from '../engine/world';
+import { getEnvironmentInRect, getTerrainInRect, isCoverBroken } from '../engine/environment';
+import { TERRAIN_EFFECTS } from '../engine/terrain';
+import { getBiome } from '../engine/biomes';
+import { getWeapon, getMagazineSize, TIER_STATS } from '../engine/weapons';
+import { getItem, RARITY_COLORS } from '../engine/items';
+import { CHARGE_LANE, CHARGE_TELEGRAPH, HEAL_RADIUS, SNIPER_LOCK_TIME, SNIPER_SIGHT_RANGE } from '../engine/enemies';
+import { getBossPattern, getBossPhase } from '../engine/bosses';
+import { BLEED_OUT_TIME, DASH_COOLDOWN, GRID_CELL_SIZE, MELEE_DURATION, REVIVE_RADIUS, REVIVE_TIME } from '../engine/constants';
+
+// Render-side state that survives between frames: the smoothed camera and the
+// positions captured before the latest tick, used for interpolation.
+export interface WorldView {
+  camera: Vector2;
+  prevCamera: Vector2;
+  prevPositions: Map<object, Vector2>;
+}
+
+export const createWorldView = (): WorldView => ({
+  camera: { x: 0, y: 0 },
+  prevCamera: { x: 0, y: 0 },
+  prevPositions: new Map(),
+});
+
+// Call right before stepping the world.
+export const captureView = (view: WorldView, world: GameWorld) => {
+  const positions = new Map<object, Vector2>();
+  for (const list of [world.players, world.enemies, world.bullets, world.particles]) {
+    for (const obj of list) positions.set(obj, { x: obj.pos.x, y: obj.pos.y });
+  }
+  view.prevPositions = positions;
+  view.prevCamera = { ...view.camera };
+};
+
+// Call right after stepping the world.
+export const followCamera = (view: WorldView, world: GameWorld) => {
+  const targetCam = getCameraCenter(world);
+  view.camera.x += (targetCam.x - view.camera.x) * 0.05;
+  view.camera.y += (targetCam.y - view.camera.y) * 0.05;
+};
+
+// Jump straight to the players, e.g. after seeking a replay.
+export const snapCamera = (view: WorldView, world: GameWorld) => {
+  view.camera = getCameraCenter(world);
+  view.prevCamera = { ...view.camera };
+  view.prevPositions = new Map();
+};
+
+// --- RENDERING HELPERS ---
+// Warnings the players have to read in time: charge lanes, sniper sights, tunnels and healer auras.
+const drawEnemyCues = (ctx: CanvasRenderingContext2D, e: Enemy, pos: Vector2) => {
+    ctx.save();
+    ctx.translate(pos.x, pos.y);
+    const aimAngle = Math.atan2(e.aim.y, e.aim.x);
+    if (e.phase === 'telegraph') {
+        ctx.rotate(aimAngle);
+        ctx.fillStyle = `rgba(239, 68, 68, ${0.15 + 0.35 * (1 - e.phaseTime / CHARGE_TELEGRAPH)})`;
+        ctx.fillRect(0, -e.radius, CHARGE_LANE, e.radius * 2);
+    } else if (e.phase === 'aiming') {
+        const locked = e.phaseTime <= SNIPER_LOCK_TIME;
+        ctx.rotate(aimAngle);
+        ctx.strokeStyle = locked ? '#f43f5e' : 'rgba(244, 63, 94, 0.4)';
+        ctx.lineWidth = locked ? 3 : 1;
+        ctx.beginPath(); ctx.moveTo(0, 0); ctx.lineTo(SNIPER_SIGHT_RANGE, 0); ctx.stroke();
+    } else if (e.phase === 'burrowed' || e.phase === 'surfacing') {
+        ctx.fillStyle = '#57412a';
+        ctx.beginPath(); ctx.ellipse(0, 8, e.radius, e.radius * 0.5, 0, 0, Math.PI * 2); ctx.fill();
+        if (e.phase === 'surfacing') {
+            ctx.strokeStyle = `rgba(239, 68, 68, ${0.5 + 0.5 * Math.sin(e.phaseTime)})`; ctx.lineWidth = 3;
+            ctx.beginPath(); ctx.arc(0, 0, e.radius + 30, 0, Math.PI * 2); ctx.stroke();
+        }
+    }
+    if (e.enemyType === 'healer') {
+        ctx.strokeStyle = 'rgba(74, 222, 128, 0.25)'; ctx.lineWidth = 2;
+        ctx.beginPath(); ctx.arc(0, 0, HEAL_RADIUS, 0, Math.PI * 2); ctx.stroke();
+    }
+    if (e.buffTime > 0) {
+        ctx.fillStyle = 'rgba(74, 222, 128, 0.3)';
+        ctx.beginPath(); ctx.arc(0, 0, e.radius + 6, 0, Math.PI * 2); ctx.fill();
+    }
+    ctx.restore();
+};
+
+const lerpPos = (view: WorldView, obj: { pos: Vector2 }, alpha: number): Vector2 => {
+    const prev = view.prevPositions.get(obj);
+    if (!prev) return obj.pos;
+    return { x: prev.x + (obj.pos.x - prev.x) * alpha, y: prev.y + (obj.pos.y - prev.y) * alpha };
+};
+
+const drawHumanoid = (ctx: CanvasRenderingContext2D, entity: Entity, pos: Vector2, isPlayer: boolean) => {
+    ctx.save();
+    ctx.translate(pos.x, pos.y);
+    ctx.rotate(entity.rotation);
+    
+    const animOffset = Math.sin((entity as any).animFrame || 0) * 3;
+    
+    // Shadow
+    ctx.fillStyle = 'rgba(0,0,0,0.5)';
+    ctx.beginPath();
+    ctx.ellipse(-5, 5, entity.radius, entity.radius * 0.6, 0, 0, Math.PI * 2);
+    ctx.fill();
+
+    if (isPlayer) {
+        if ((entity as Player).isInvulnerable) ctx.globalAlpha = 0.5; // Dash i-frames
+        // Body
+        ctx.fillStyle = entity.color;
+        ctx.fillRect(-12, -12, 24, 24);
+        ctx.fillStyle = '#ffdbac'; 
+        ctx.beginPath(); ctx.arc(0, 0, 10, 0, Math.PI * 2); ctx.fill();
+
+        // Weapon Vis
+        const p = entity as Player;
+        const visual = getWeapon(p.weapon).visual;
+        
+        ctx.fillStyle = visual.color;
+        ctx.fillRect(5, 5 + animOffset, visual.length, 5); 
+        if (visual.scopeColor) {
+           ctx.fillStyle = visual.scopeColor; ctx.fillRect(25, 1+animOffset, 2, 2); // Scope
+        }
+
+        // Melee slash
+        if (p.meleeTime > 0) {
+            const { range, arc, color } = MELEE_STATS[p.role];
+            const sweep = 1 - p.meleeTime / MELEE_DURATION;
+            ctx.globalAlpha = p.meleeTime / MELEE_DURATION;
+            ctx.strokeStyle = color; ctx.lineWidth = 6; ctx.lineCap = 'round';
+            ctx.beginPath(); ctx.arc(0, 0, range, -arc / 2, -arc / 2 + arc * Math.min(1, sweep * 2)); ctx.stroke();
+            ctx.globalAlpha = 1;
+        }
+    } else {
+        // Enemy
+        const e = entity as Enemy;
+        if (e.visuals) {
+            const { hue, scale, hasArmor } = e.visuals;
+            ctx.scale(scale, scale);
+            ctx.fillStyle = entity.color;
+            if (hasArmor) {
+               ctx.fillRect(-15, -15, 30, 30);
+               ctx.fillStyle = `hsl(${hue}, 40%, 60%)`; ctx.fillRect(-10, -10, 20, 20);
+            } else {
+               ctx.beginPath(); ctx.arc(0, 0, 15, 0, Math.PI*2); ctx.fill();
+            }
+            // Limbs
+            ctx.strokeStyle = entity.color; ctx.lineWidth = 4;
+            ctx.beginPath(); ctx.moveTo(10, 10); ctx.lineTo(20 + animOffset, 20); ctx.moveTo(-10, 10); ctx.lineTo(-20 - animOffset, 20); ctx.stroke();
+        } else {
+            // Fallback for non-enemies (should not happen with correct calls)
+            ctx.fillStyle = entity.color;
+            ctx.beginPath(); ctx.arc(0,0, entity.radius, 0, Math.PI*2); ctx.fill();
+        }
+    }
+
+    ctx.restore();
+    
+    // HP
+    ctx.save();
+    ctx.translate(pos.x, pos.y);
+    ctx.fillStyle = 'black'; ctx.fillRect(-20, -entity.radius - 20, 40, 6);
+    ctx.fillStyle = isPlayer ? '#22c55e' : (entity.type === 'crate' ? '#f97316' : '#ef4444');
+    ctx.fillRect(-20, -entity.radius - 20, 40 * (entity.hp / entity.maxHp), 6);
+    ctx.restore();
+};
+
+// A downed player lies on their side inside the revive circle. The red ring is the bleed-out
+// running down, the green one fills while their partner revives them.
+const drawDownedPlayer = (ctx: CanvasRenderingContext2D, p: Player, pos: Vector2, animTick: number) => {
+    ctx.save();
+    ctx.translate(pos.x, pos.y);
+    ctx.strokeStyle = 'rgba(74, 222, 128, 0.35)'; ctx.lineWidth = 2;
+    ctx.setLineDash([6, 6]);
+    ctx.beginPath(); ctx.arc(0, 0, REVIVE_RADIUS, 0, Math.PI * 2); ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.save();
+    ctx.rotate(Math.PI / 2);
+    ctx.globalAlpha = 0.6;
+    ctx.fillStyle = p.color; ctx.fillRect(-12, -12, 24, 24);
+    ctx.fillStyle = '#ffdbac'; ctx.beginPath(); ctx.arc(0, 0, 10, 0, Math.PI * 2); ctx.fill();
+    ctx.restore();
+
+    const ring = p.radius + 14;
+    ctx.lineWidth = 5;
+    ctx.strokeStyle = 'rgba(0,0,0,0.6)';
+    ctx.beginPath(); ctx.arc(0, 0, ring, 0, Math.PI * 2); ctx.stroke();
+    ctx.strokeStyle = '#ef4444';
+    ctx.beginPath(); ctx.arc(0, 0, ring, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * (p.bleedOut / BLEED_OUT_TIME)); ctx.stroke();
+    if (p.reviveProgress > 0) {
+        ctx.strokeStyle = '#4ade80'; ctx.lineWidth = 4;
+        ctx.beginPath(); ctx.arc(0, 0, ring + 7, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * (p.reviveProgress / REVIVE_TIME)); ctx.stroke();
+    }
+
+    ctx.textAlign = 'center'; ctx.font = 'bold 12px monospace';
+    ctx.fillStyle = p.reviveProgress > 0 ? '#4ade80' : (Math.floor(animTick / 20) % 2 === 0 ? '#ef4444' : 'white');
+    ctx.fillText(p.reviveProgress > 0 ? 'REVIVING' : 'DOWN', 0, -ring - 12);
+    ctx.restore();
+};
+
+const drawBuilding = (ctx: CanvasRenderingContext2D, env: EnvironmentObject, palette: BiomePalette) => {
+    ctx.save();
+    ctx.translate(env.pos.x, env.pos.y);
+    const w = env.size.x; const h = env.size.y; const roofH = 20;
+    ctx.fillStyle = 'rgba(0,0,0,0.6)'; ctx.fillRect(-w/2 + 10, -h/2 + 10, w, h);
+    ctx.fillStyle = '#111827'; ctx.fillRect(-w/2, -h/2, w, h);
+    ctx.fillStyle = env.color; ctx.fillRect(-w/2, -h/2 - roofH, w, h);
+    ctx.fillStyle = palette.roof; ctx.fillRect(-w/2, -h/2 - roofH - 10, w, 10);
+    const seed = env.pos.x + env.pos.y;
+    ctx.shadowBlur = 10; ctx.shadowColor = palette.windows[Math.abs(Math.floor(seed)) % palette.windows.length]; ctx.fillStyle = ctx.shadowColor;
+    for(let i= -w/2 + 15; i < w/2 - 15; i+= 25) {
+        for(let j= -h/2 - roofH + 15; j < h/2 - 20; j+= 30) {
+            if (Math.sin(i * j + seed) > 0.2) ctx.fillRect(i, j, 12, 18);
+        }
+    }
+    ctx.restore();
+};
+
+const drawTree = (ctx: CanvasRenderingContext2D, env: EnvironmentObject, palette: BiomePalette) => {
+    ctx.save(); ctx.translate(env.pos.x, env.pos.y);
+    ctx.fillStyle = 'rgba(0,0,0,0.4)'; ctx.beginPath(); ctx.ellipse(5, 5, env.size.x, env.size.x * 0.6, 0, 0, Math.PI*2); ctx.fill();
+    ctx.fillStyle = '#3f2c22'; ctx.fillRect(-5, -10, 10, 10);
+    ctx.shadowBlur = 0;
+    for (let i = 0; i < 3; i++) {
+       ctx.fillStyle = i % 2 === 0 ? env.color : palette.foliage;
+       ctx.beginPath();
+       const r = env.size.x * (1 - i * 0.2);
+       ctx.arc(0, -20 - (i * 15), r, 0, Math.PI * 2); ctx.fill();
+       ctx.strokeStyle = 'rgba(0,0,0,0.2)'; ctx.lineWidth = 2; ctx.stroke();
+    }
+    ctx.restore();
+};
+
+// A broken block of stone: lit top face, cracked front.
+const drawRuin = (ctx: CanvasRenderingContext2D, env: EnvironmentObject) => {
+    ctx.save(); ctx.translate(env.pos.x, env.pos.y);
+    const w = env.size.x; const h = env.size.y; const topH = 14;
+    ctx.fillStyle = 'rgba(0,0,0,0.5)'; ctx.fillRect(-w/2 + 8, -h/2 + 8, w, h);
+    ctx.fillStyle = env.color; ctx.fillRect(-w/2, -h/2 - topH, w, h + topH);
+    ctx.fillStyle = 'rgba(255,255,255,0.15)'; ctx.fillRect(-w/2, -h/2 - topH, w, topH);
+    ctx.strokeStyle = 'rgba(0,0,0,0.45)'; ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(-w * 0.2, -h/2); ctx.lineTo(-w * 0.05, 0); ctx.lineTo(-w * 0.15, h/2);
+    ctx.moveTo(w * 0.3, -h/2 - topH); ctx.lineTo(w * 0.2, -h/2 + 6);
+    ctx.stroke();
+    ctx.restore();
+};
+
+// A low wall that cracks as it takes damage; broken, it is a scatter of rubble on the ground.
+const drawCover = (ctx: CanvasRenderingContext2D, env: EnvironmentObject, damage: number) => {
+    ctx.save(); ctx.translate(env.pos.x, env.pos.y);
+    const w = env.size.x; const h = env.size.y; const topH = 10;
+    const wear = Math.min(1, damage / (env.hp || 1));
+    ctx.fillStyle = 'rgba(0,0,0,0.45)'; ctx.fillRect(-w/2 + 6, -h/2 + 6, w, h);
+    ctx.fillStyle = env.color; ctx.fillRect(-w/2, -h/2 - topH, w, h + topH);
+    ctx.fillStyle = 'rgba(255,255,255,0.18)'; ctx.fillRect(-w/2, -h/2 - topH, w, topH);
+    if (wear > 0) {
+        ctx.strokeStyle = 'rgba(0,0,0,0.6)'; ctx.lineWidth = 2;
+        ctx.beginPath();
+        const cracks = Math.ceil(wear * 4);
+        for (let i = 0; i < cracks; i++) {
+            const along = -0.35 + i * 0.23;
+            const cx = w > h ? along * w : 0; const cy = w > h ? 0 : along * h;
+            ctx.moveTo(cx - 4, cy - topH); ctx.lineTo(cx + 3, cy); ctx.lineTo(cx - 2, cy + 8);
+        }
+        ctx.stroke();
+    }
+    ctx.restore();
+};
+
+const drawRubble = (ctx: CanvasRenderingContext2D, env: EnvironmentObject) => {
+    ctx.save(); ctx.translate(env.pos.x, env.pos.y);
+    ctx.fillStyle = env.color; ctx.globalAlpha = 0.6;
+    for (let i = 0; i < 6; i++) {
+        const x = ((i * 37) % 11 - 5) / 10 * env.size.x;
+        const y = ((i * 23) % 7 - 3) / 6 * env.size.y;
+        ctx.fillRect(x - 6, y - 4, 12 - (i % 3) * 2, 8);
+    }
+    ctx.restore();
+};
+
+// Pools of ground cover, one soft blob per cell so neighbouring cells run together.
+const drawTerrain = (ctx: CanvasRenderingContext2D, cells: { gx: number; gy: number; type: TerrainType }[], palette: BiomePalette, animTick: number) => {
+    ctx.save();
+    (Object.keys(TERRAIN_EFFECTS) as TerrainType[]).forEach(type => {
+        const ofType = cells.filter(c => c.type === type);
+        if (ofType.length === 0) return;
+        const color = palette.terrain[type] || TERRAIN_EFFECTS[type].color;
+        const hazard = TERRAIN_EFFECTS[type].damagePerSecond > 0;
+        ctx.fillStyle = color;
+        // Anything that hurts pulses and glows
+        ctx.globalAlpha = hazard ? 0.8 + Math.sin(animTick * 0.05) * 0.1 : 0.75;
+        if (hazard) { ctx.shadowBlur = 25; ctx.shadowColor = color; }
+        ctx.beginPath();
+        ofType.forEach(c => {
+            const x = (c.gx + 0.5) * GRID_CELL_SIZE; const y = (c.gy + 0.5) * GRID_CELL_SIZE;
+            ctx.moveTo(x + GRID_CELL_SIZE * 0.72, y);
+            ctx.arc(x, y, GRID_CELL_SIZE * 0.72, 0, Math.PI * 2);
+        });
+        ctx.fill();
+        ctx.shadowBlur = 0;
+        if (type === 'crystal_field') {
+            // Shards poking out of the field
+            ctx.globalAlpha = 0.9; ctx.fillStyle = palette.foliage;
+            ofType.forEach(c => {
+                for (let k = 0; k < 3; k++) {
+                    const x = (c.gx + 0.25 + k * 0.25) * GRID_CELL_SIZE;
+                    const y = (c.gy + 0.3 + ((c.gx * 7 + c.gy * 3 + k * 5) % 5) * 0.1) * GRID_CELL_SIZE;
+                    ctx.beginPath(); ctx.moveTo(x, y - 14); ctx.lineTo(x + 5, y); ctx.lineTo(x, y + 4); ctx.lineTo(x - 5, y); ctx.fill();
+                }
+            });
+        } else if (type === 'spring') {
+            // Rising bubbles
+            ctx.globalAlpha = 0.8; ctx.fillStyle = '#ecfeff';
+            ofType.forEach(c => {
+                for (let k = 0; k < 4; k++) {
+                    const t = (animTick * 0.02 + k * 0.25) % 1;
+                    const x = (c.gx + 0.3 + k * 0.13) * GRID_CELL_SIZE;
+                    const y = (c.gy + 0.7 - t * 0.4) * GRID_CELL_SIZE;
+                    ctx.beginPath(); ctx.arc(x, y, 3 + t * 3, 0, Math.PI * 2); ctx.fill();
+                }
+            });
+        }
+    });
+    ctx.restore();
+};
+
+// Landmarks lie flat on the ground, under everything that stands.
+const drawLandmark = (ctx: CanvasRenderingContext2D, env: EnvironmentObject, animTick: number) => {
+    ctx.save(); ctx.translate(env.pos.x, env.pos.y);
+    const r = env.size.x;
+    ctx.strokeStyle = env.color; ctx.fillStyle = env.color;
+    if (env.landmark === 'arena') {
+        ctx.globalAlpha = 0.15; ctx.beginPath(); ctx.arc(0, 0, r, 0, Math.PI * 2); ctx.fill();
+        ctx.globalAlpha = 0.5; ctx.lineWidth = 4; ctx.setLineDash([30, 20]);
+        ctx.beginPath(); ctx.arc(0, 0, r - 40, 0, Math.PI * 2); ctx.stroke();
+    } else {
+        const pulse = 0.5 + Math.sin(animTick * 0.06) * 0.2;
+        ctx.shadowBlur = 20; ctx.shadowColor = env.color;
+        ctx.globalAlpha = 0.25; ctx.beginPath(); ctx.arc(0, 0, r, 0, Math.PI * 2); ctx.fill();
+        ctx.globalAlpha = pulse; ctx.lineWidth = 3;
+        ctx.beginPath(); ctx.arc(0, 0, r * 0.7, 0, Math.PI * 2); ctx.stroke();
+        // Altars are a five-pointed seal, shrines a diamond
+        const points = env.landmark === 'altar' ? 5 : 4;
+        const step = env.landmark === 'altar' ? 2 : 1;
+        ctx.beginPath();
+        for (let k = 0; k <= points; k++) {
+            const a = -Math.PI / 2 + (Math.PI * 2 * ((k * step) % points)) / points;
+            const px = Math.cos(a) * r * 0.6; const py = Math.sin(a) * r * 0.6;
+            if (k === 0) ctx.moveTo(px, py); else ctx.lineTo(px, py);
+        }
+        ctx.stroke();
+    }
+    ctx.restore();
+};
+
+// One block per player, bottom-left: a ring that fills as the dash recharges, score above it,
+// the weapon with its ammo to the right and the item strip on top.
+const ITEMS_PER_ROW = 8;
+
+const drawPlayerHud = (ctx: CanvasRenderingContext2D, world: GameWorld, canvasHeight: number) => {
+    ctx.save();
+    ctx.textAlign = 'center'; ctx.font = 'bold 12px monospace';
+    world.players.forEach((p, i) => {
+        const x = 50 + i * 240;
+        const y = canvasHeight - 50;
+        const ready = p.dashCooldown <= 0;
+        ctx.globalAlpha = p.dead ? 0.3 : (p.downed ? 0.7 : 1);
+
+        ctx.lineWidth = 6;
+        ctx.strokeStyle = 'rgba(0,0,0,0.6)';
+        ctx.beginPath(); ctx.arc(x, y, 24, 0, Math.PI * 2); ctx.stroke();
+        ctx.strokeStyle = ready ? p.color : '#6b7280';
+        ctx.beginPath(); ctx.arc(x, y, 24, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * (1 - p.dashCooldown / DASH_COOLDOWN)); ctx.stroke();
+
+        ctx.fillStyle = p.downed ? '#ef4444' : (ready ? 'white' : '#9ca3af');
+        ctx.fillText(p.downed ? 'DOWN' : 'DASH', x, y + 4);
+        ctx.fillText(p.id.toUpperCase(), x, y + 44);
+        ctx.fillStyle = p.color;
+        ctx.fillText(String(p.score), x, y - 36);
+
+        ctx.textAlign = 'left';
+        ctx.fillStyle = TIER_STATS[p.weaponTier].color;
+        ctx.fillText(`${getWeapon(p.weapon).name.toUpperCase()} · ${p.weaponTier.toUpperCase()}`, x + 36, y - 6);
+        ctx.font = 'bold 16px monospace';
+        ctx.fillStyle = p.reloadTime > 0 ? '#facc15' : (p.ammo === 0 ? '#ef4444' : 'white');
+        ctx.fillText(p.reloadTime > 0 ? 'RELOADING…' : `${p.ammo}/${getMagazineSize(p.weapon, p.weaponTier)}  +${p.reserveAmmo}`, x + 36, y + 14);
+        ctx.font = 'bold 12px monospace'; ctx.textAlign = 'center';
+
+        Object.keys(p.items).forEach((id, slot) => {
+            const item = getItem(id);
+            if (!item) return;
+            const ix = x - 12 + (slot % ITEMS_PER_ROW) * 26;
+            const iy = y - 64 - Math.floor(slot / ITEMS_PER_ROW) * 28;
+            ctx.fillStyle = 'rgba(0,0,0,0.6)'; ctx.fillRect(ix - 12, iy - 12, 24, 24);
+            ctx.strokeStyle = RARITY_COLORS[item.rarity]; ctx.lineWidth = 2; ctx.strokeRect(ix - 12, iy - 12, 24, 24);
+            ctx.font = '14px sans-serif'; ctx.fillText(item.icon, ix, iy + 5);
+            if (p.items[id] > 1) {
+                ctx.font = 'bold 10px monospace'; ctx.fillStyle = 'white';
+                ctx.fillText(`${p.items[id]}`, ix + 9, iy + 11);
+            }
+        });
+        ctx.font = 'bold 12px monospace';
+    });
+    ctx.restore();
+};
+
+const drawRadar = (ctx: CanvasRenderingContext2D, world: GameWorld, canvasWidth: number, cam: Vector2, animTick: number) => {
+    const radarSize = 150;
+    const radarX = canvasWidth - radarSize - 20;
+    const radarY = 160;
+    const range = 2500; // 2500px radius detection
+    const scale = radarSize / range;
+
+    // Background
+    ctx.save();
+    ctx.beginPath();
+    ctx.arc(radarX, radarY, radarSize, 0, Math.PI * 2);
+    ctx.fillStyle = 'rgba(0, 20, 0, 0.7)';
+    ctx.fill();
+    ctx.strokeStyle = '#0f0';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    // Scanline
+    ctx.beginPath();
+    ctx.moveTo(radarX, radarY);
+    const scanAngle = (animTick * 0.05) % (Math.PI * 2);
+    ctx.lineTo(radarX + Math.cos(scanAngle) * radarSize, radarY + Math.sin(scanAngle) * radarSize);
+    ctx.strokeStyle = 'rgba(0, 255, 0, 0.5)';
+    ctx.stroke();
+
+    // Helper to draw blip
+    const drawBlip = (pos: Vector2, color: string, size: number) => {
+        const dx = pos.x - cam.x;
+        const dy = pos.y - cam.y;
+        if (Math.abs(dx) < range && Math.abs(dy) < range) {
+           const dist = Math.hypot(dx, dy);
+           if (dist < range) {
+               ctx.fillStyle = color;
+               ctx.beginPath();
+               ctx.arc(radarX + dx * scale, radarY + dy * scale, size, 0, Math.PI * 2);
+               ctx.fill();
+           }
+        }
+    };
+
+    world.players.forEach(p => !p.dead && drawBlip(p.pos, p.downed && Math.floor(animTick / 20) % 2 === 0 ? '#ef4444' : 'white', 3));
+    world.enemies.forEach(e => !e.dead && drawBlip(e.pos, e.type === 'boss' ? 'red' : 'rgba(255,0,0,0.5)', e.type === 'boss' ? 5 : 2));
+    world.crystals.forEach(c => !c.dead && drawBlip(c.pos, '#d8b4fe', 3));
+    world.crates.forEach(c => !c.dead && drawBlip(c.pos, '#f97316', 3));
+    world.items.forEach(it => drawBlip(it.pos, it.color, 3));
+
+    ctx.restore();
+};
+
+/**
+ * Renders one frame. `alpha` is how far real time has advanced into the next tick (0..1);
+ * moving things are drawn between their position before and after the latest tick.
+ */
+export const drawWorld = (canvas: HTMLCanvasElement, world: GameWorld, view: WorldView, alpha: number) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  if (canvas.width !== window.innerWidth || canvas.height !== window.innerHeight) {
+    canvas.width = window.innerWidth;
+    canvas.height = window.innerHeight;
+  }
+
+  const palette = getBiome(world.params.biome).palette;
+  ctx.fillStyle = palette.ground;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.save();
+  const prevCam = view.prevCamera;
+  const cam = {
+    x: prevCam.x + (view.camera.x - prevCam.x) * alpha,
+    y: prevCam.y + (view.camera.y - prevCam.y) * alpha
+  };
+  const animTick = world.waveTimer + alpha;
+  const camX = Math.floor(cam.x - canvas.width / 2);
+  const camY = Math.floor(cam.y - canvas.height / 2);
+  ctx.translate(-camX, -camY);
+
+  // Grid
+  ctx.strokeStyle = palette.grid; ctx.lineWidth = 2;
+  const gridSize = 100;
+  const startX = Math.floor(camX / gridSize) * gridSize;
+  const startY = Math.floor(camY / gridSize) * gridSize;
+  ctx.beginPath();
+  for (let x = startX; x < startX + canvas.width + gridSize; x += gridSize) {
+      ctx.moveTo(x, startY); ctx.lineTo(x, startY + canvas.height + gridSize);
+  }
+  for (let y = startY; y < startY + canvas.height + gridSize; y += gridSize) {
+      ctx.moveTo(startX, y); ctx.lineTo(startX + canvas.width + gridSize, y);
+  }
+  ctx.stroke();
+
+  drawTerrain(ctx, getTerrainInRect(cam.x, cam.y, canvas.width + 400, canvas.height + 400, world), palette, animTick);
+  const visibleEnv = getEnvironmentInRect(cam.x, cam.y, canvas.width + 200, canvas.height + 200, world);
+  visibleEnv.forEach(env => {
+      if (env.type === 'landmark') drawLandmark(ctx, env, animTick);
+      else if (isCoverBroken(env, world)) drawRubble(ctx, env);
+  });
+
+  const renderList: { y: number, draw: () => void }[] = [];
+
+  world.players.forEach(p => {
+      if (p.dead) return;
+      const pos = lerpPos(view, p, alpha);
+      renderList.push({ y: pos.y, draw: () => p.downed ? drawDownedPlayer(ctx, p, pos, animTick) : drawHumanoid(ctx, p, pos, true) });
+  });
+  world.enemies.forEach(e => {
+      const pos = lerpPos(view, e, alpha);
+      renderList.push({ y: pos.y, draw: () => {
+          drawEnemyCues(ctx, e, pos);
+          if (e.phase !== 'burrowed') drawHumanoid(ctx, e, pos, false);
+      }});
+  });
+  world.crates.forEach(c => renderList.push({ y: c.pos.y, draw: () => {
+       ctx.save(); ctx.translate(c.pos.x, c.pos.y);
+       ctx.fillStyle = 'rgba(0,0,0,0.5)'; ctx.beginPath(); ctx.ellipse(0, 10, 20, 10, 0, 0, Math.PI*2); ctx.fill();
+       ctx.fillStyle = '#c2410c'; ctx.fillRect(-15, -15, 30, 30);
+       ctx.fillStyle = '#fdba74'; ctx.fillRect(-12, -12, 24, 6);
+       
+       // HP Bar for Crate
+       ctx.fillStyle = 'black'; ctx.fillRect(-20, -35, 40, 6);
+       ctx.fillStyle = '#f97316'; ctx.fillRect(-20, -35, 40 * (c.hp / c.maxHp), 6);
+       
+       ctx.restore();
+  }}));
+  
+  // Pickups
+  world.pickups.forEach(pk => renderList.push({ y: pk.pos.y, draw: () => {
+      ctx.save(); ctx.translate(pk.pos.x, pk.pos.y);
+      const tierColor = TIER_STATS[pk.tier].color;
+      ctx.shadowBlur = 15; ctx.shadowColor = tierColor;
+      const floatY = Math.sin(animTick * 0.1) * 5;
+      ctx.fillStyle = '#fff'; ctx.fillText('🔫', -10, floatY);
+      ctx.fillStyle = tierColor;
+      ctx.font = '10px monospace'; ctx.fillText(getWeapon(pk.weaponType).name.toUpperCase(), -20, floatY - 20);
+      ctx.fillText(pk.tier.toUpperCase(), -20, floatY - 32);
+      ctx.restore();
+  }}));
+
+  // Items
+  world.items.forEach(it => renderList.push({ y: it.pos.y, draw: () => {
+      const item = getItem(it.itemId);
+      ctx.save(); ctx.translate(it.pos.x, it.pos.y + Math.sin(animTick * 0.08 + it.pos.x) * 4);
+      ctx.shadowBlur = 20; ctx.shadowColor = it.color;
+      ctx.strokeStyle = it.color; ctx.lineWidth = 2;
+      ctx.beginPath(); ctx.arc(0, 0, it.radius, 0, Math.PI * 2); ctx.stroke();
+      ctx.textAlign = 'center'; ctx.font = '18px sans-serif';
+      ctx.fillText(item?.icon || '?', 0, 6);
+      ctx.fillStyle = it.color; ctx.font = '10px monospace';
+      ctx.fillText((item?.name || it.itemId).toUpperCase(), 0, -it.radius - 6);
+      ctx.restore();
+  }}));
+
+  visibleEnv.forEach(env => {
+      if (env.type === 'landmark' || isCoverBroken(env, world)) return;
+      const draw = env.type === 'building' ? () => drawBuilding(ctx, env, palette)
+        : env.type === 'ruin' ? () => drawRuin(ctx, env)
+        : env.type === 'cover' ? () => drawCover(ctx, env, world.coverDamage[env.id] || 0)
+        : () => drawTree(ctx, env, palette);
+      renderList.push({ y: env.pos.y + (env.type === 'tree' ? 0 : env.size.y/2), draw });
+  });
+
+  world.crystals.forEach(c => {
+      renderList.push({ y: c.pos.y, draw: () => {
+          ctx.save(); ctx.translate(c.pos.x, c.pos.y);
+          ctx.translate(0, Math.sin(animTick * 0.1) * 5);
+          ctx.shadowBlur = 20; ctx.shadowColor = c.color; ctx.fillStyle = c.color;
+          ctx.beginPath(); ctx.moveTo(0, -15); ctx.lineTo(10, 0); ctx.lineTo(0, 15); ctx.lineTo(-10, 0); ctx.fill();
+          ctx.strokeStyle = 'white'; ctx.lineWidth = 1; ctx.stroke(); ctx.restore();
+      }});
+  });
+
+  renderList.sort((a, b) => a.y - b.y);
+  renderList.forEach(item => item.draw());
+
+  // Bullets
+  world.bullets.forEach(b => {
+    const pos = lerpPos(view, b, alpha);
+    ctx.save(); ctx.translate(pos.x, pos.y);
+    ctx.fillStyle = b.color;
+    if (b.isReflected) {
+      ctx.strokeStyle = 'white'; ctx.lineWidth = 2;
+      ctx.beginPath(); ctx.arc(0, 0, b.radius + 3, 0, Math.PI * 2); ctx.stroke();
+    }
+    if (b.lifeTime < 8 && b.radius > 20) {
+      ctx.globalAlpha = 0.4; ctx.beginPath(); ctx.arc(0, 0, b.radius, 0, Math.PI * 2); ctx.fill();
+    } else {
+      ctx.shadowBlur = 10; ctx.shadowColor = b.color;
+      ctx.beginPath(); ctx.arc(0, 0, b.radius, 0, Math.PI * 2); ctx.fill();
+    }
+    ctx.restore();
+  });
+
+  world.particles.forEach(p => {
+    const pos = lerpPos(view, p, alpha);
+    ctx.save(); ctx.translate(pos.x, pos.y);
+    ctx.globalAlpha = p.life / p.maxLife; ctx.fillStyle = p.color;
+    const size = p.type === 'blood' ? p.size : p.size * 2;
+    ctx.fillRect(-size/2, -size/2, size, size);
+    ctx.restore();
+  });
+
+  ctx.restore();
+
+  // --- HUD ---
+  ctx.font = 'bold 24px monospace'; ctx.textAlign = 'right';
+  ctx.shadowBlur = 4; ctx.shadowColor = 'black';
+  
+  const crystals = world.crystalsCollected;
+  const maxCrystals = world.crystalsToBoss;
+  const progress = Math.min(1, crystals / maxCrystals);
+  
+  ctx.fillStyle = '#4c1d95'; ctx.fillRect(canvas.width - 320, 20, 300, 30);
+  ctx.fillStyle = '#a855f7'; ctx.fillRect(canvas.width - 320, 20, 300 * progress, 30);
+  ctx.fillStyle = 'white'; ctx.fillText(`${crystals} / ${maxCrystals} Crystals`, canvas.width - 30, 43);
+
+  drawPlayerHud(ctx, world, canvas.height);
+
+  // Radar
+  drawRadar(ctx, world, canvas.width, cam, animTick);
+
+  if (world.bossSpawned) {
+      ctx.fillStyle = '#ff4444'; ctx.font = 'bold 30px monospace';
+      ctx.fillText(`WARNING: BOSS DETECTED`, canvas.width - 30, 80);
+  }
+
+  drawBossBar(ctx, world, canvas.width);
+};
+
+// Top-centre health bar; the ticks mark where the next phases begin.
+const drawBossBar = (ctx: CanvasRenderingContext2D, world: GameWorld, width: number) => {
+  const boss = world.enemies.find(e => e.type === 'boss' && !e.dead);
+  if (!boss) return;
+  const barWidth = Math.min(600, width - 700);
+  const x = (width - barWidth) / 2;
+  const y = 30;
+  const fraction = Math.max(0, boss.hp / boss.maxHp);
+  const phase = getBossPhase(world.boss, fraction);
+
+  ctx.save();
+  ctx.shadowBlur = 0;
+  ctx.fillStyle = 'rgba(0,0,0,0.7)'; ctx.fillRect(x - 4, y - 4, barWidth + 8, 26);
+  ctx.fillStyle = '#7f1d1d'; ctx.fillRect(x, y, barWidth, 18);
+  ctx.fillStyle = phase === 0 ? '#ef4444' : phase === 1 ? '#f97316' : '#facc15';
+  ctx.fillRect(x, y, barWidth * fraction, 18);
+  world.boss.thresholds.forEach(t => {
+    ctx.fillStyle = fraction > t ? 'white' : 'rgba(255,255,255,0.3)';
+    ctx.fillRect(x + barWidth * t - 1, y - 4, 3, 26);
+  });
+
+  ctx.font = 'bold 18px monospace'; ctx.fillStyle = 'white';
+  ctx.textAlign = 'left'; ctx.fillText(world.boss.name, x, y + 44);
+  ctx.textAlign = 'right';
+  const attack = world.boss.pattern ? ` · ${getBossPattern(world.boss.pattern).name}` : '';
+  ctx.fillText(`Phase ${phase + 1}/${world.boss.thresholds.length + 1}${attack}`, x + barWidth, y + 44);
+  ctx.restore();
+};
@@ -0,0 +1,101 @@
+// Collision benchmark: a level under heavy fire, timed with and without the spatial hash.
+//
+//   npm run bench
+//
+// For each bullet count it reports the full stepWorld cost per tick, then times the
+// broad-phase work alone (every bullet against every enemy, plus flocking pairs) done by
+// brute force versus through the spatial hash on the same world.
+import { Enemy, GameWorld } from '../types';
+import { createWorld, spawnBullet, spawnEnemy, stepWorld } from '../engine/world';
+import { createRng, randomRange } from '../engine/rng';
+import { createSpatialHash, querySpatial } from '../engine/spatialHash';
+
+const BULLET_COUNTS = [100, 300, 600, 1000];
+const ENEMY_COUNT = 30;
+const WARMUP_TICKS = 60;
+const MEASURED_TICKS = 600;
+const BROAD_PHASE_ROUNDS = 200;
+
+const levelInfo = { levelNumber: 5, biomeName: 'Benchmark Flats', description: '', bossName: 'Bench Boss', bossDescription: '' };
+
+const createScenario = (): GameWorld => {
+  const world = createWorld(levelInfo, 1234);
+  world.players.forEach(p => { p.hp = p.maxHp = 1e9; });
+  for (let i = 0; i < ENEMY_COUNT; i++) spawnEnemy(world);
+  spawnEnemy(world, true);
+  world.bossSpawned = true;
+  world.enemies.forEach(e => { e.hp = e.maxHp = 1e9; });
+  return world;
+};
+
+// Tops the bullet count back up, half minigun fire from the players and half enemy shots.
+const refillBullets = (world: GameWorld, target: number, rng = createRng(7)) => {
+  while (world.bullets.length < target) {
+    const fromPlayer = world.bullets.length % 2 === 0;
+    const source = fromPlayer ? world.players[world.bullets.length % 2] : world.enemies[world.bullets.length % world.enemies.length];
+    const angle = randomRange(rng, 0, Math.PI * 2);
+    const speed = fromPlayer ? 18 : 6;
+    spawnBullet(world, source.pos, { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed }, source.id, fromPlayer ? 'minigun' : 'enemy_normal');
+  }
+};
+
+const time = (run: () => void): number => {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+};
+
+const bruteForce = (world: GameWorld) => {
+  let hits = 0;
+  for (const b of world.bullets) {
+    for (const e of world.enemies) if (Math.hypot(b.pos.x - e.pos.x, b.pos.y - e.pos.y) < e.radius + b.radius) hits++;
+  }
+  for (const e of world.enemies) {
+    for (const other of world.enemies) if (other !== e && Math.hypot(e.pos.x - other.pos.x, e.pos.y - other.pos.y) < e.radius + other.radius + 20) hits++;
+  }
+  return hits;
+};
+
+const hashed = (world: GameWorld) => {
+  let hits = 0;
+  const grid = createSpatialHash(world.enemies);
+  const candidates: Enemy[] = [];
+  for (const b of world.bullets) {
+    candidates.length = 0;
+    for (const e of querySpatial(grid, b.pos, b.radius, candidates)) if (Math.hypot(b.pos.x - e.pos.x, b.pos.y - e.pos.y) < e.radius + b.radius) hits++;
+  }
+  for (const e of world.enemies) {
+    candidates.length = 0;
+    for (const other of querySpatial(grid, e.pos, e.radius + 20, candidates)) if (other !== e && Math.hypot(e.pos.x - other.pos.x, e.pos.y - other.pos.y) < e.radius + other.radius + 20) hits++;
+  }
+  return hits;
+};
+
+const rows = BULLET_COUNTS.map(count => {
+  const world = createScenario();
+  const rng = createRng(count);
+  for (let t = 0; t < WARMUP_TICKS; t++) { refillBullets(world, count, rng); stepWorld(world, {}); }
+
+  let stepMs = 0;
+  for (let t = 0; t < MEASURED_TICKS; t++) {
+    refillBullets(world, count, rng);
+    stepMs += time(() => stepWorld(world, {}));
+  }
+
+  refillBullets(world, count, rng);
+  if (bruteForce(world) !== hashed(world)) throw new Error('Spatial hash and brute force disagree');
+  for (let i = 0; i < BROAD_PHASE_ROUNDS / 4; i++) { bruteForce(world); hashed(world); }  // let the JIT settle
+  const bruteMs = time(() => { for (let i = 0; i < BROAD_PHASE_ROUNDS; i++) bruteForce(world); }) / BROAD_PHASE_ROUNDS;
+  const hashMs = time(() => { for (let i = 0; i < BROAD_PHASE_ROUNDS; i++) hashed(world); }) / BROAD_PHASE_ROUNDS;
+
+  return {
+    bullets: count,
+    enemies: world.enemies.length,
+    'stepWorld ms/tick': +(stepMs / MEASURED_TICKS).toFixed(3),
+    'brute force ms': +bruteMs.toFixed(3),
+    'spatial hash ms': +hashMs.toFixed(3),
+    speedup: `${(bruteMs / hashMs).toFixed(1)}x`,
+  };
+});
+
+console.table(rows);
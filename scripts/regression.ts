@@ -0,0 +1,107 @@
+// Level regression check: plays seeded levels headlessly with a scripted bot and compares the
+// results against known values, then replays each recording and expects the same world back.
+//
+//   npm run regression
+//
+// A deliberate change to the simulation rules moves these numbers. Bump REPLAY_VERSION, check
+// the new values look sane and copy them from the failure output into EXPECTED.
+import { Entity, FrameInput, GameWorld, LevelInfo, PlayerInput, RunStats } from '../types';
+import { createIdleInput, createWorld, getLevelStats, stepWorld } from '../engine/world';
+import { getLevelSeed } from '../engine/rng';
+import { createReplayRecorder, finishReplay, quantizeInput, recordFrame, simulateReplay } from '../engine/replay';
+import { createRunLoadouts } from '../engine/unlocks';
+import { TICK_RATE } from '../engine/constants';
+
+const LEVEL_TICKS = 90 * TICK_RATE;
+
+interface Scenario {
+  name: string;
+  runSeed: string;
+  levelInfo: LevelInfo;
+}
+
+interface Outcome extends RunStats {
+  outcome: GameWorld['outcome'];
+  ticks: number;
+}
+
+const SCENARIOS: Scenario[] = [
+  {
+    name: 'outskirts, level 1',
+    runSeed: 'REGRESS1',
+    levelInfo: { levelNumber: 1, biomeName: 'Quiet Outskirts', description: 'Abandoned farms at the edge of the colony.', bossName: 'Rust Warden', bossDescription: 'A patrol mech gone feral.' },
+  },
+  {
+    name: 'volcanic, level 3 with params',
+    runSeed: 'REGRESS2',
+    levelInfo: {
+      levelNumber: 3, biomeName: 'Cinder Reach', description: 'Rivers of lava split the black rock.', bossName: 'Magma Tyrant', bossDescription: 'It wades through the lava.',
+      params: { biome: 'volcanic', enemyMix: { charger: 2 }, spawnRate: 1.4, bossHpMultiplier: 0.8, bossStyle: [], hazardDensity: 1.2 },
+    },
+  },
+];
+
+const EXPECTED: Record<string, Outcome> = {
+  'outskirts, level 1': { score: 9000, kills: 43, crystals: 8, bosses: 0, revives: 0, outcome: 'playing', ticks: 5400 },
+  'volcanic, level 3 with params': { score: 8500, kills: 50, crystals: 16, bosses: 0, revives: 0, outcome: 'defeat', ticks: 4376 },
+};
+
+// Heads for the nearest crystal (or the boss once it is out) while shooting, and swings when
+// something gets close. It only reads the world, so its inputs replay exactly.
+const botInput = (world: GameWorld): FrameInput => {
+  const input: FrameInput = {};
+  world.players.forEach(p => {
+    const controls: PlayerInput = { ...createIdleInput(), fire: true };
+    const goals = world.bossSpawned ? world.enemies.filter(e => e.type === 'boss') : world.crystals;
+    let goal: Entity | null = null;
+    let best = Infinity;
+    for (const g of goals) {
+      const d = Math.hypot(g.pos.x - p.pos.x, g.pos.y - p.pos.y);
+      if (d < best) { best = d; goal = g; }
+    }
+    if (goal && best > 1) {
+      // Against the boss, keep some distance instead of walking into it
+      const sign = world.bossSpawned && best < 250 ? -1 : 1;
+      controls.move = { x: sign * (goal.pos.x - p.pos.x) / best, y: sign * (goal.pos.y - p.pos.y) / best };
+    }
+    controls.melee = world.enemies.some(e => Math.hypot(e.pos.x - p.pos.x, e.pos.y - p.pos.y) < 60);
+    input[p.id] = controls;
+  });
+  return input;
+};
+
+const summarize = (world: GameWorld, ticks: number): Outcome => ({ ...getLevelStats(world), outcome: world.outcome, ticks });
+
+const play = (scenario: Scenario) => {
+  const loadouts = createRunLoadouts([]);
+  const world = createWorld(scenario.levelInfo, getLevelSeed(scenario.runSeed, scenario.levelInfo.levelNumber), loadouts);
+  const recorder = createReplayRecorder(scenario.runSeed, scenario.levelInfo, world.players.map(p => p.id), loadouts);
+  let ticks = 0;
+  while (ticks < LEVEL_TICKS && world.outcome === 'playing') {
+    const input = quantizeInput(botInput(world));
+    recordFrame(recorder, input);
+    stepWorld(world, input);
+    ticks++;
+  }
+  const replayed = simulateReplay(finishReplay(recorder));
+  return { live: summarize(world, ticks), replayed: summarize(replayed, recorder.tickCount) };
+};
+
+const same = (a: Outcome, b: Outcome) => (Object.keys(a) as (keyof Outcome)[]).every(key => a[key] === b[key]);
+
+let failures = 0;
+for (const scenario of SCENARIOS) {
+  const { live, replayed } = play(scenario);
+  const expected = EXPECTED[scenario.name];
+  const problems: string[] = [];
+  if (!same(live, expected)) problems.push(`expected ${JSON.stringify(expected)}`);
+  if (!same(live, replayed)) problems.push(`replay gave ${JSON.stringify(replayed)}`);
+  console.log(`${problems.length === 0 ? 'ok  ' : 'FAIL'} ${scenario.name}: ${JSON.stringify(live)}`);
+  problems.forEach(problem => console.log(`     ${problem}`));
+  if (problems.length > 0) failures++;
+}
+
+if (failures > 0) {
+  console.log(`${failures} of ${SCENARIOS.length} scenarios failed`);
+  process.exit(1);
+}
@@ -0,0 +1,114 @@
+// Lobby relay for online co-op. Pairs a host and a guest under a short lobby code and
+// forwards their messages verbatim; it never looks inside the game traffic.
+//
+//   npm run relay            (listens on ws://localhost:8787)
+//   RELAY_PORT=9000 npm run relay
+import { WebSocketServer, WebSocket } from 'ws';
+import { ClientMessage, PeerMessage, RELAY_PORT, ServerMessage } from '../net/protocol';
+
+interface Room {
+  code: string;
+  host: WebSocket;
+  guest: WebSocket | null;
+}
+
+// No 0/O/1/I, so codes survive being read out loud.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 4;
+
+const rooms = new Map<string, Room>();
+const roomOf = new Map<WebSocket, Room>();
+
+const send = (socket: WebSocket | null, message: ServerMessage) => {
+  if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const createCode = (): string => {
+  let code: string;
+  do {
+    code = '';
+    for (let i = 0; i < CODE_LENGTH; i++) code += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)];
+  } while (rooms.has(code));
+  return code;
+};
+
+const leave = (socket: WebSocket) => {
+  const room = roomOf.get(socket);
+  if (!room) return;
+  roomOf.delete(socket);
+  if (room.host === socket) {
+    // The host owns the simulation, so the lobby ends with it.
+    send(room.guest, { type: 'peer-left' });
+    if (room.guest) roomOf.delete(room.guest);
+    rooms.delete(room.code);
+    console.log(`[relay] ${room.code} closed`);
+  } else {
+    room.guest = null;
+    send(room.host, { type: 'peer-left' });
+    console.log(`[relay] ${room.code} guest left`);
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Only the envelope is checked; relayed payloads stay opaque.
+const parseClientMessage = (raw: unknown): ClientMessage | null => {
+  if (!isRecord(raw)) return null;
+  switch (raw.type) {
+    case 'create': return { type: 'create' };
+    case 'join': return typeof raw.code === 'string' ? { type: 'join', code: raw.code } : null;
+    case 'relay': return { type: 'relay', payload: raw.payload as PeerMessage };
+    default: return null;
+  }
+};
+
+const handleMessage = (socket: WebSocket, message: ClientMessage) => {
+  switch (message.type) {
+    case 'create': {
+      leave(socket);
+      const room: Room = { code: createCode(), host: socket, guest: null };
+      rooms.set(room.code, room);
+      roomOf.set(socket, room);
+      send(socket, { type: 'created', code: room.code });
+      console.log(`[relay] ${room.code} created`);
+      break;
+    }
+    case 'join': {
+      const room = rooms.get(message.code.toUpperCase());
+      if (!room) return send(socket, { type: 'error', message: 'No lobby with that code' });
+      if (room.guest) return send(socket, { type: 'error', message: 'That lobby is full' });
+      leave(socket);
+      room.guest = socket;
+      roomOf.set(socket, room);
+      send(socket, { type: 'joined', code: room.code });
+      send(room.host, { type: 'peer-joined' });
+      console.log(`[relay] ${room.code} guest joined`);
+      break;
+    }
+    case 'relay': {
+      const room = roomOf.get(socket);
+      if (!room) return;
+      send(room.host === socket ? room.guest : room.host, { type: 'relay', payload: message.payload });
+      break;
+    }
+  }
+};
+
+const port = Number(process.env.RELAY_PORT) || RELAY_PORT;
+const server = new WebSocketServer({ port });
+
+server.on('connection', socket => {
+  socket.on('message', data => {
+    let message: ClientMessage | null;
+    try {
+      message = parseClientMessage(JSON.parse(data.toString()));
+    } catch {
+      message = null;
+    }
+    if (!message) return send(socket, { type: 'error', message: 'Malformed message' });
+    handleMessage(socket, message);
+  });
+  socket.on('close', () => leave(socket));
+});
+
+console.log(`[relay] listening on ws://localhost:${port}`);
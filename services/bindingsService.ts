@@ -0,0 +1,35 @@
+import { BindableAction, ControlBindings } from "../types";
+import { BINDABLE_ACTIONS, createDefaultBindings } from "../input/bindings";
+
+const BINDINGS_KEY = "crystal-hunters:bindings";
+
+// Merges whatever was stored over the defaults, so a new action never arrives unbound.
+export const loadBindings = (): ControlBindings => {
+  const bindings = createDefaultBindings();
+  try {
+    const raw = localStorage.getItem(BINDINGS_KEY);
+    if (!raw) return bindings;
+    const stored = JSON.parse(raw) as Partial<ControlBindings>;
+    for (const playerId of Object.keys(bindings)) {
+      const saved = stored[playerId];
+      if (!saved) continue;
+      const target = bindings[playerId];
+      BINDABLE_ACTIONS.forEach((action: BindableAction) => {
+        if (typeof saved.keys?.[action] === "string") target.keys[action] = saved.keys[action];
+        if (typeof saved.gamepadButtons?.[action] === "number") target.gamepadButtons[action] = saved.gamepadButtons[action];
+      });
+      if (saved.gamepadIndex === null || typeof saved.gamepadIndex === "number") target.gamepadIndex = saved.gamepadIndex;
+    }
+  } catch (error) {
+    console.error("Stored control bindings are unreadable", error);
+  }
+  return bindings;
+};
+
+export const saveBindings = (bindings: ControlBindings) => {
+  try {
+    localStorage.setItem(BINDINGS_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.error("Could not store control bindings", error);
+  }
+};
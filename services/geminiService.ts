@@ -1,16 +1,26 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { LevelInfo } from "../types";
+import { LevelInfoProvider, NarratorProvider } from "../types";
+import { buildLevelPrompt, parseLevelResponse } from "./levelPrompt";
+import { BIOMES } from "../engine/biomes";
+import { BOSS_PATTERNS } from "../engine/bosses";
+import { getMixableEnemies } from "../engine/levelParams";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const GEMINI_MODEL = process.env.GEMINI_MODEL || "gemini-2.5-flash";
 
-export const generateLevelInfo = async (level: number): Promise<LevelInfo> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Generate a creative, sci-fi/fantasy rogue-like game level description for Level ${level}. 
-      The setting is a dangerous alien planet. 
-      Include a biome name, a short atmospheric description, a scary boss name, and a one-sentence description of the boss.`,
+// Created on first use, so a missing key costs nothing until Gemini is actually asked.
+let client: GoogleGenAI | null = null;
+const getClient = () => client || (client = new GoogleGenAI({ apiKey: process.env.API_KEY }));
+
+export const geminiProvider: LevelInfoProvider = {
+  id: "gemini",
+  name: "Gemini AI",
+  isAvailable: () => !!process.env.API_KEY,
+  generate: async (level, _runSeed, signal) => {
+    const response = await getClient().models.generateContent({
+      model: GEMINI_MODEL,
+      contents: buildLevelPrompt(level),
       config: {
+        abortSignal: signal,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
@@ -19,29 +29,46 @@ export const generateLevelInfo = async (level: number): Promise<LevelInfo> => {
             description: { type: Type.STRING },
             bossName: { type: Type.STRING },
             bossDescription: { type: Type.STRING },
+            params: {
+              type: Type.OBJECT,
+              properties: {
+                biome: { type: Type.STRING, enum: BIOMES.map(b => b.id) },
+                enemyMix: {
+                  type: Type.OBJECT,
+                  properties: Object.fromEntries(getMixableEnemies().map(id => [id, { type: Type.NUMBER }])),
+                },
+                spawnRate: { type: Type.NUMBER },
+                bossHpMultiplier: { type: Type.NUMBER },
+                bossStyle: { type: Type.ARRAY, items: { type: Type.STRING, enum: BOSS_PATTERNS.map(p => p.id) } },
+                hazardDensity: { type: Type.NUMBER },
+              },
+            },
           },
           required: ["biomeName", "description", "bossName", "bossDescription"],
         },
       },
     });
+    return parseLevelResponse(level, response.text || "{}");
+  },
+};
 
-    const data = JSON.parse(response.text || "{}");
-    
-    return {
-      levelNumber: level,
-      biomeName: data.biomeName || `Sector ${level}`,
-      description: data.description || "A desolate wasteland filled with unknown threats.",
-      bossName: data.bossName || "The Guardian",
-      bossDescription: data.bossDescription || "A massive construct of ancient metal.",
-    };
-  } catch (error) {
-    console.error("Gemini generation failed", error);
-    return {
-      levelNumber: level,
-      biomeName: `Sector ${level}-Z`,
-      description: "Communications offline. Terrain data unavailable. Proceed with caution.",
-      bossName: "Omega Construct",
-      bossDescription: "An unidentifiable massive energy signature detected.",
-    };
-  }
-};
\ No newline at end of file
+export const geminiNarrator: NarratorProvider = {
+  id: "gemini",
+  isAvailable: () => !!process.env.API_KEY,
+  narrate: async (prompt, signal) => {
+    const response = await getClient().models.generateContent({
+      model: GEMINI_MODEL,
+      contents: prompt,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: { lines: { type: Type.ARRAY, items: { type: Type.STRING } } },
+          required: ["lines"],
+        },
+      },
+    });
+    return response.text || "{}";
+  },
+};
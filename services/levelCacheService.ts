@@ -0,0 +1,73 @@
+import { LevelInfo } from "../types";
+
+// Generated briefings, kept in IndexedDB by run seed and level: restarting or continuing a
+// level shows the same briefing (and so the same biome and boss) without asking a model again.
+const DB_NAME = "crystal-hunters";
+const DB_VERSION = 1;
+const STORE = "levelInfo";
+const CACHE_LIMIT = 200;
+
+interface CachedLevelInfo {
+  key: string;
+  providerId: string;
+  info: LevelInfo;
+  createdAt: number;
+}
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Opened once; resolves to null where IndexedDB is missing or refused (private windows, tests).
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === "undefined") return resolve(null);
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "key" });
+        store.createIndex("createdAt", "createdAt");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error("Level cache unavailable", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const cacheKey = (runSeed: string, levelNumber: number) => `${runSeed}#${levelNumber}`;
+
+export const getCachedLevelInfo = async (runSeed: string, levelNumber: number): Promise<LevelInfo | null> => {
+  try {
+    const db = await openDb();
+    if (!db) return null;
+    const entry: CachedLevelInfo | undefined = await toPromise(db.transaction(STORE).objectStore(STORE).get(cacheKey(runSeed, levelNumber)));
+    return entry?.info || null;
+  } catch (error) {
+    console.error("Level cache read failed", error);
+    return null;
+  }
+};
+
+export const putCachedLevelInfo = async (runSeed: string, info: LevelInfo, providerId: string) => {
+  try {
+    const db = await openDb();
+    if (!db) return;
+    const store = db.transaction(STORE, "readwrite").objectStore(STORE);
+    const entry: CachedLevelInfo = { key: cacheKey(runSeed, info.levelNumber), providerId, info, createdAt: Date.now() };
+    await toPromise(store.put(entry));
+
+    // Oldest entries go first once the cache is full
+    const excess = (await toPromise(store.count())) - CACHE_LIMIT;
+    if (excess <= 0) return;
+    const oldest = await toPromise(store.index("createdAt").getAllKeys(null, excess));
+    oldest.forEach(key => store.delete(key));
+  } catch (error) {
+    console.error("Level cache write failed", error);
+  }
+};
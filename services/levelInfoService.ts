@@ -0,0 +1,87 @@
+import { LevelInfo, LevelInfoProvider } from "../types";
+import { geminiProvider } from "./geminiService";
+import { openAiCompatibleProvider } from "./openAiService";
+import { generateOfflineLevelInfo, offlineProvider } from "./offlineLevelService";
+import { getCachedLevelInfo, putCachedLevelInfo } from "./levelCacheService";
+
+// "gemini", "openai" or "offline"; unset means whichever online provider is configured.
+const PREFERRED_PROVIDER = process.env.LEVEL_PROVIDER || "";
+
+const ONLINE_PROVIDERS: LevelInfoProvider[] = [geminiProvider, openAiCompatibleProvider];
+
+// The providers to try, in order: the preferred one first, the offline generator always last.
+export const getLevelProviders = (): LevelInfoProvider[] => {
+  if (PREFERRED_PROVIDER === offlineProvider.id) return [offlineProvider];
+  const online = ONLINE_PROVIDERS.filter(p => p.isAvailable());
+  const preferred = online.filter(p => p.id === PREFERRED_PROVIDER);
+  return [...preferred, ...online.filter(p => p.id !== PREFERRED_PROVIDER), offlineProvider];
+};
+
+// Each online attempt gets this long before it is abandoned, and a failed one is retried once
+// after a short pause before moving on to the next provider.
+const ATTEMPT_TIMEOUT_MS = 15000;
+const ATTEMPT_RETRIES = 1;
+const RETRY_DELAY_MS = 1000;
+
+const abortReason = (signal: AbortSignal) => signal.reason ?? new DOMException("Level request cancelled", "AbortError");
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortReason(signal));
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortReason(signal!));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener("abort", onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener("abort", onAbort, { once: true });
+});
+
+// One call to a provider, cut off by the timeout or by the caller's signal. Providers that
+// ignore their signal still lose the race, they just finish in the background.
+const attemptProvider = (provider: LevelInfoProvider, levelNumber: number, runSeed: string, signal?: AbortSignal): Promise<LevelInfo> => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(abortReason(signal!));
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener("abort", onAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(new Error(`${provider.name} timed out`)), ATTEMPT_TIMEOUT_MS);
+  const aborted = new Promise<never>((_, reject) => {
+    if (controller.signal.aborted) reject(controller.signal.reason);
+    controller.signal.addEventListener("abort", () => reject(controller.signal.reason), { once: true });
+  });
+  return Promise.race([provider.generate(levelNumber, runSeed, controller.signal), aborted]).finally(() => {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  });
+};
+
+/**
+ * The briefing for a level of a run. A cached one wins; otherwise each provider is tried in
+ * turn, with a timeout and a retry, and `onProvider` hears which one is being asked (for the
+ * loading screen). Only aborting `signal` makes it reject; every other failure ends offline.
+ */
+export const generateLevelInfo = async (levelNumber: number, runSeed: string, onProvider?: (provider: LevelInfoProvider) => void, signal?: AbortSignal): Promise<LevelInfo> => {
+  // Without a seed there is no run to remember the briefing for
+  const cached = runSeed ? await getCachedLevelInfo(runSeed, levelNumber) : null;
+  if (cached) return cached;
+
+  for (const provider of getLevelProviders()) {
+    const retries = provider === offlineProvider ? 0 : ATTEMPT_RETRIES;
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (signal?.aborted) throw abortReason(signal);
+      if (attempt > 0) await delay(RETRY_DELAY_MS * attempt, signal);
+      onProvider?.(provider);
+      try {
+        const info = await attemptProvider(provider, levelNumber, runSeed, signal);
+        if (runSeed) putCachedLevelInfo(runSeed, info, provider.id);
+        return info;
+      } catch (error) {
+        if (signal?.aborted) throw abortReason(signal);
+        console.error(`${provider.name} could not generate level ${levelNumber} (attempt ${attempt + 1})`, error);
+      }
+    }
+  }
+  if (signal?.aborted) throw abortReason(signal);
+  return generateOfflineLevelInfo(levelNumber, runSeed);
+};
@@ -0,0 +1,55 @@
+import { LevelInfo, LevelInfoProvider } from "../types";
+import { generateLevelInfo } from "./levelInfoService";
+
+// Levels further behind the one being asked for are never needed again.
+const KEEP_BEHIND = 1;
+
+export interface LevelRequest {
+  levelNumber: number;
+  promise: Promise<LevelInfo>;
+  info: LevelInfo | null;   // set once the briefing has arrived
+}
+
+// Every briefing asked for during one run, so the next level can generate while this one is played.
+export interface LevelPrefetcher {
+  runSeed: string;
+  controller: AbortController;
+  requests: Map<number, LevelRequest>;
+}
+
+export const createLevelPrefetcher = (runSeed: string): LevelPrefetcher => ({ runSeed, controller: new AbortController(), requests: new Map() });
+
+/**
+ * The briefing for a level of this run: the request already under way if there is one,
+ * otherwise a new one. A request that is cancelled is forgotten, so asking again starts over.
+ */
+export const requestLevel = (prefetcher: LevelPrefetcher, levelNumber: number, onProvider?: (provider: LevelInfoProvider) => void): LevelRequest => {
+  prefetcher.requests.forEach((_, n) => {
+    if (n < levelNumber - KEEP_BEHIND) prefetcher.requests.delete(n);
+  });
+
+  const existing = prefetcher.requests.get(levelNumber);
+  if (existing) return existing;
+
+  const request = { levelNumber, info: null } as LevelRequest;
+  request.promise = generateLevelInfo(levelNumber, prefetcher.runSeed, onProvider, prefetcher.controller.signal).then(info => {
+    request.info = info;
+    return info;
+  });
+  request.promise.catch(() => {
+    if (prefetcher.requests.get(levelNumber) === request) prefetcher.requests.delete(levelNumber);
+  });
+  prefetcher.requests.set(levelNumber, request);
+  return request;
+};
+
+// Starts the level generating in the background; nobody waits on it yet.
+export const prefetchLevel = (prefetcher: LevelPrefetcher, levelNumber: number) => {
+  requestLevel(prefetcher, levelNumber);
+};
+
+// Abandons everything still in flight; the prefetcher is finished with after this.
+export const cancelLevelPrefetcher = (prefetcher: LevelPrefetcher) => {
+  prefetcher.controller.abort();
+  prefetcher.requests.clear();
+};
@@ -0,0 +1,45 @@
+import { LevelInfo } from "../types";
+import { BIOMES } from "../engine/biomes";
+import { BOSS_PATTERNS } from "../engine/bosses";
+import { getMixableEnemies, LEVEL_PARAM_LIMITS, MAX_BOSS_STYLE, sanitizeLevelParams } from "../engine/levelParams";
+
+const MAX_FIELD_LENGTH = 400;
+
+const range = ({ min, max }: { min: number; max: number }) => `${min} to ${max}`;
+
+// Same brief for every model, so providers differ only in transport. The knobs are listed
+// from the registries, so new biomes, enemies and boss patterns are offered automatically.
+export const buildLevelPrompt = (level: number): string =>
+  `Generate a creative, sci-fi/fantasy rogue-like game level description for Level ${level}.
+      The setting is a dangerous alien planet.
+      Include a biome name, a short atmospheric description, a scary boss name, and a one-sentence description of the boss.
+      Also tune the level to fit that text with a "params" object:
+      - biome: one of ${BIOMES.map(b => `${b.id} (${b.name})`).join(", ")}
+      - enemyMix: weight multipliers (${range(LEVEL_PARAM_LIMITS.enemyWeight)}, default 1) for ${getMixableEnemies().join(", ")}
+      - spawnRate: how fast enemies arrive, ${range(LEVEL_PARAM_LIMITS.spawnRate)}
+      - bossHpMultiplier: ${range(LEVEL_PARAM_LIMITS.bossHpMultiplier)}
+      - bossStyle: up to ${MAX_BOSS_STYLE} boss attacks from ${BOSS_PATTERNS.map(p => `${p.id} (${p.name})`).join(", ")}
+      - hazardDensity: how much hazardous or difficult ground, ${range(LEVEL_PARAM_LIMITS.hazardDensity)}
+      Later levels may be harder, but keep every level fair.`;
+
+export const LEVEL_FIELDS = ["biomeName", "description", "bossName", "bossDescription", "params"] as const;
+
+// Throws unless every text field came back as non-empty text; long answers are cut short.
+// The gameplay knobs are optional and validated separately, so bad ones only lose themselves.
+export const parseLevelResponse = (level: number, text: string): LevelInfo => {
+  const data = JSON.parse(text);
+  const field = (name: "biomeName" | "description" | "bossName" | "bossDescription"): string => {
+    const value = data?.[name];
+    if (typeof value !== "string" || !value.trim()) throw new Error(`Level response is missing ${name}`);
+    return value.trim().slice(0, MAX_FIELD_LENGTH);
+  };
+  const info: LevelInfo = {
+    levelNumber: level,
+    biomeName: field("biomeName"),
+    description: field("description"),
+    bossName: field("bossName"),
+    bossDescription: field("bossDescription"),
+  };
+  if (data.params !== undefined) info.params = sanitizeLevelParams(data.params, info);
+  return info;
+};
@@ -0,0 +1,296 @@
+import { GameEvent, GameWorld, LevelInfo, NarratorLine, NarratorProvider } from "../types";
+import { getWeapon } from "../engine/weapons";
+import { geminiNarrator } from "./geminiService";
+import { openAiCompatibleNarrator } from "./openAiService";
+
+// Same switch as level generation: "offline" keeps the narrator on its own line bank.
+const PREFERRED_PROVIDER = process.env.LEVEL_PROVIDER || "";
+
+const LINE_GAP_MS = 3500;          // between two lines on screen
+const BATCH_WINDOW_MS = 800;       // a burst of events goes out as one request
+const REQUEST_GAP_MS = 6000;       // between two model requests
+const REQUEST_TIMEOUT_MS = 6000;
+const MODEL_BACKOFF_MS = 30000;    // offline lines only for a while after a failure
+const CUE_TTL_MS = 10000;          // a cue nobody got round to is no longer news
+const MAX_BATCH = 3;
+const MAX_PENDING = 6;
+const MAX_READY = 3;
+const MAX_LINE_LENGTH = 120;
+
+type CueKind = "bossSpawned" | "bossPhase" | "playerDown" | "playerRevived" | "playerLost" | "crystalMilestone" | "weaponPickup";
+
+interface CueRule {
+  voice: NarratorLine["voice"];
+  priority: number;       // higher ones are kept when too much happens at once
+  cooldownMs: number;     // per kind, so a pickup spree is one line
+  brief: string;          // how the event is put to the model
+  offline: string[];      // {boss}, {biome}, {player}, {reviver}, {weapon}, {tier}, {left} and {phase} are filled in
+}
+
+const CUE_RULES: Record<CueKind, CueRule> = {
+  bossSpawned: {
+    voice: "boss", priority: 3, cooldownMs: 0,
+    brief: "The boss {boss} has just appeared in front of the squad.",
+    offline: [
+      "You dug too deep into {biome}. Now you meet {boss}.",
+      "Every crystal you took was bait. Come closer.",
+      "I am {boss}. This world was never yours.",
+      "Little hunters. I have been waiting.",
+    ],
+  },
+  bossPhase: {
+    voice: "boss", priority: 2, cooldownMs: 4000,
+    brief: "The boss {boss} is wounded and changes tactics (phase {phase}).",
+    offline: [
+      "That only made me angry.",
+      "You have not seen my true strength.",
+      "Pain? I have forgotten what it means.",
+      "Enough games. {boss} fights for real now.",
+    ],
+  },
+  playerDown: {
+    voice: "command", priority: 3, cooldownMs: 2000,
+    brief: "{player} has gone down and needs their partner to revive them.",
+    offline: [
+      "{player} is down! Get over there!",
+      "{player}'s vitals are dropping. Revive them, now!",
+      "Man down! {player} won't last long out there.",
+      "{player} is hit bad. Stand by them and patch them up.",
+    ],
+  },
+  playerRevived: {
+    voice: "command", priority: 2, cooldownMs: 2000,
+    brief: "{reviver} has revived {player}.",
+    offline: [
+      "{player} is back on their feet. Nice work, {reviver}.",
+      "Vitals stable. Welcome back, {player}.",
+      "{reviver} pulled {player} through. Keep moving.",
+      "Good save, {reviver}. Don't make a habit of it, {player}.",
+    ],
+  },
+  playerLost: {
+    voice: "command", priority: 3, cooldownMs: 2000,
+    brief: "{player} has bled out and is gone for this level.",
+    offline: [
+      "We lost {player}'s signal. Stay sharp.",
+      "{player} is gone. Don't let it be for nothing.",
+      "No response from {player}. You're on your own now.",
+      "{player} is out. Finish this for both of you.",
+    ],
+  },
+  crystalMilestone: {
+    voice: "command", priority: 1, cooldownMs: 5000,
+    brief: "The squad needs {left} more crystal(s) before the boss shows up.",
+    offline: [
+      "Crystal readings climbing. {left} to go.",
+      "Good haul. {left} more and something big wakes up.",
+      "Keep collecting, {left} left. And brace yourselves.",
+      "Crystals to go: {left}. The ground is starting to shake.",
+    ],
+  },
+  weaponPickup: {
+    voice: "command", priority: 1, cooldownMs: 15000,
+    brief: "{player} picked up a {tier} {weapon}.",
+    offline: [
+      "{player}, that {weapon} looks good on you.",
+      "{tier} {weapon} confirmed. Put it to use.",
+      "Nice find, {player}. Show them that {weapon}.",
+      "Armoury update: {player} has a {tier} {weapon}.",
+    ],
+  },
+};
+
+interface NarratorCue {
+  kind: CueKind;
+  vars: Record<string, string>;
+  at: number;
+}
+
+// The in-run narrator: turns game events into comms lines. Events are only queued during the
+// simulation tick; requests and timing happen in `updateNarrator`, off the game loop.
+export interface Narrator {
+  levelInfo: LevelInfo | null;
+  provider: NarratorProvider | null;
+  onLine: (line: NarratorLine) => void;
+  pending: NarratorCue[];
+  ready: NarratorLine[];               // answered, waiting for their turn on screen
+  lastCueAt: Partial<Record<CueKind, number>>;
+  lastRequestAt: number;
+  lastLineAt: number;
+  modelPausedUntil: number;
+  inFlight: boolean;
+  controller: AbortController;
+  recent: string[];                    // offline lines used lately, so they don't repeat back to back
+  nextId: number;
+}
+
+const getNarratorProvider = (): NarratorProvider | null => {
+  if (PREFERRED_PROVIDER === "offline") return null;
+  const online = [geminiNarrator, openAiCompatibleNarrator].filter(p => p.isAvailable());
+  return online.find(p => p.id === PREFERRED_PROVIDER) || online[0] || null;
+};
+
+export const createNarrator = (levelInfo: LevelInfo | null, onLine: (line: NarratorLine) => void): Narrator => ({
+  levelInfo,
+  provider: getNarratorProvider(),
+  onLine,
+  pending: [],
+  ready: [],
+  lastCueAt: {},
+  lastRequestAt: -Infinity,
+  lastLineAt: -Infinity,
+  modelPausedUntil: 0,
+  inFlight: false,
+  controller: new AbortController(),
+  recent: [],
+  nextId: 1,
+});
+
+const fill = (template: string, vars: Record<string, string>) => template.replace(/\{(\w+)\}/g, (_, key) => vars[key] ?? "");
+
+const pushCue = (narrator: Narrator, kind: CueKind, vars: Record<string, string>, now: number) => {
+  const last = narrator.lastCueAt[kind];
+  if (last !== undefined && now - last < CUE_RULES[kind].cooldownMs) return;
+  narrator.lastCueAt[kind] = now;
+  narrator.pending.push({ kind, vars: { boss: narrator.levelInfo?.bossName || "the boss", biome: narrator.levelInfo?.biomeName || "this place", ...vars }, at: now });
+  if (narrator.pending.length > MAX_PENDING) {
+    // Drop the least important, oldest first
+    let drop = 0;
+    narrator.pending.forEach((cue, i) => {
+      if (CUE_RULES[cue.kind].priority < CUE_RULES[narrator.pending[drop].kind].priority) drop = i;
+    });
+    narrator.pending.splice(drop, 1);
+  }
+};
+
+const describePlayer = (world: GameWorld, playerId: string) => `Player ${world.players.findIndex(p => p.id === playerId) + 1}`;
+
+// Crystal counts worth a line: halfway there, and the last one before the boss.
+const isCrystalMilestone = (total: number, needed: number) =>
+  total < needed && (total === Math.ceil(needed / 2) || total === needed - 1);
+
+/**
+ * Queues cues for this tick's events. Cheap and synchronous, so it is safe inside the game loop.
+ * `now` here and in `updateNarrator` is `performance.now()`.
+ */
+export const noteGameEvents = (narrator: Narrator, events: GameEvent[], world: GameWorld, now: number) => {
+  for (const event of events) {
+    if (event.type === "bossSpawned") pushCue(narrator, "bossSpawned", {}, now);
+    else if (event.type === "bossPhase") pushCue(narrator, "bossPhase", { phase: String(event.phase) }, now);
+    else if (event.type === "playerDowned") pushCue(narrator, "playerDown", { player: describePlayer(world, event.playerId) }, now);
+    else if (event.type === "playerRevived") {
+      pushCue(narrator, "playerRevived", { player: describePlayer(world, event.playerId), reviver: describePlayer(world, event.reviverId) }, now);
+    } else if (event.type === "playerDied") pushCue(narrator, "playerLost", { player: describePlayer(world, event.playerId) }, now);
+    else if (event.type === "crystalCollected" && isCrystalMilestone(event.total, world.crystalsToBoss)) {
+      pushCue(narrator, "crystalMilestone", { left: String(world.crystalsToBoss - event.total) }, now);
+    } else if (event.type === "weaponPickup") {
+      pushCue(narrator, "weaponPickup", { player: describePlayer(world, event.playerId), weapon: getWeapon(event.weapon).name, tier: event.tier }, now);
+    }
+  }
+};
+
+const offlineLine = (narrator: Narrator, cue: NarratorCue): string => {
+  const bank = CUE_RULES[cue.kind].offline;
+  const fresh = bank.filter(line => !narrator.recent.includes(line));
+  const options = fresh.length > 0 ? fresh : bank;
+  const template = options[Math.floor(Math.random() * options.length)];
+  narrator.recent = [template, ...narrator.recent].slice(0, 6);
+  return fill(template, cue.vars);
+};
+
+const buildNarratorPrompt = (narrator: Narrator, cues: NarratorCue[]): string => {
+  const info = narrator.levelInfo;
+  const boss = info?.bossName || "the boss";
+  return `You voice the radio chatter of a co-op sci-fi shooter on a dangerous alien planet.
+      The squad is in ${info?.biomeName || "unknown territory"}${info ? `: ${info.description}` : ""}
+      The boss is ${boss}${info ? `: ${info.bossDescription}` : ""}
+      Write one short line (at most 12 words) for each event below, in order.
+      Lines marked BOSS are taunts spoken by ${boss}; the others come from mission control, talking to the squad.
+      ${cues.map((cue, i) => `${i + 1}. ${CUE_RULES[cue.kind].voice === "boss" ? "[BOSS] " : ""}${fill(CUE_RULES[cue.kind].brief, cue.vars)}`).join("\n      ")}
+      Answer with a JSON object {"lines": [...]} holding exactly ${cues.length} strings.`;
+};
+
+// Whatever the model managed, one line per cue; anything missing or empty comes from the bank.
+const parseNarratorResponse = (text: string, count: number): (string | null)[] => {
+  let lines: unknown = null;
+  try {
+    lines = JSON.parse(text)?.lines;
+  } catch {
+    // Treated as no lines at all
+  }
+  return Array.from({ length: count }, (_, i) => {
+    const line = Array.isArray(lines) ? lines[i] : null;
+    return typeof line === "string" && line.trim() ? line.trim().slice(0, MAX_LINE_LENGTH) : null;
+  });
+};
+
+const pushLine = (narrator: Narrator, cue: NarratorCue, text: string) => {
+  narrator.ready.push(toLine(narrator, cue, text));
+  if (narrator.ready.length > MAX_READY) narrator.ready.shift();
+};
+
+const toLine = (narrator: Narrator, cue: NarratorCue, text: string): NarratorLine => ({
+  id: narrator.nextId++,
+  speaker: CUE_RULES[cue.kind].voice === "boss" ? cue.vars.boss : "Command",
+  voice: CUE_RULES[cue.kind].voice,
+  text,
+});
+
+const askModel = async (narrator: Narrator, provider: NarratorProvider, cues: NarratorCue[], now: number) => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  narrator.controller.signal.addEventListener("abort", onAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  narrator.inFlight = true;
+  let answers: (string | null)[] = cues.map(() => null);
+  try {
+    answers = parseNarratorResponse(await provider.narrate(buildNarratorPrompt(narrator, cues), controller.signal), cues.length);
+  } catch (error) {
+    if (!narrator.controller.signal.aborted) console.warn("Narrator model failed, using offline lines", error);
+    narrator.modelPausedUntil = now + MODEL_BACKOFF_MS;
+  } finally {
+    clearTimeout(timer);
+    narrator.controller.signal.removeEventListener("abort", onAbort);
+    narrator.inFlight = false;
+  }
+  if (narrator.controller.signal.aborted) return;
+  cues.forEach((cue, i) => pushLine(narrator, cue, answers[i] ?? offlineLine(narrator, cue)));
+};
+
+/**
+ * Drives the narrator from a timer: shows the next ready line once the last one has had its
+ * time, and sends waiting cues off as one batch when the rate limit allows. Without a model,
+ * or while it is backing off, cues are answered from the offline bank straight away.
+ */
+export const updateNarrator = (narrator: Narrator, now: number) => {
+  if (narrator.controller.signal.aborted) return;
+  narrator.pending = narrator.pending.filter(cue => now - cue.at < CUE_TTL_MS);
+
+  if (narrator.pending.length > 0 && !narrator.inFlight && now - narrator.pending[0].at >= BATCH_WINDOW_MS) {
+    const cues = narrator.pending
+      .slice()
+      .sort((a, b) => CUE_RULES[b.kind].priority - CUE_RULES[a.kind].priority || a.at - b.at)
+      .slice(0, MAX_BATCH);
+    const useModel = narrator.provider && now >= narrator.modelPausedUntil && now - narrator.lastRequestAt >= REQUEST_GAP_MS;
+    if (useModel) {
+      narrator.pending = narrator.pending.filter(cue => !cues.includes(cue));
+      narrator.lastRequestAt = now;
+      askModel(narrator, narrator.provider!, cues, now);
+    } else if (!narrator.provider || now < narrator.modelPausedUntil) {
+      narrator.pending = narrator.pending.filter(cue => !cues.includes(cue));
+      cues.forEach(cue => pushLine(narrator, cue, offlineLine(narrator, cue)));
+    }
+  }
+
+  if (narrator.ready.length > 0 && now - narrator.lastLineAt >= LINE_GAP_MS) {
+    narrator.lastLineAt = now;
+    narrator.onLine(narrator.ready.shift()!);
+  }
+};
+
+// Cancels any request in flight and silences the narrator for good.
+export const stopNarrator = (narrator: Narrator) => {
+  narrator.controller.abort();
+  narrator.pending = [];
+  narrator.ready = [];
+};
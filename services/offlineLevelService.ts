@@ -0,0 +1,97 @@
+import { LevelInfo, LevelInfoProvider, Rng } from "../types";
+import { createRng, getLevelSeed, pick, random, randomRange } from "../engine/rng";
+
+// A small grammar: each level picks a theme, then fills templates from its word banks.
+// Boss epithets line up with the boss pattern keywords (engine/bosses.ts), and the knobs vary
+// a little around the defaults, so offline levels still look and fight differently.
+interface Theme {
+  biome: string;            // biome registry id
+  adjectives: string[];
+  places: string[];
+  sights: string[];
+  hazards: string[];
+}
+
+const THEMES: Theme[] = [
+  {
+    biome: "volcanic",
+    adjectives: ["Molten", "Ashen", "Scorched", "Cinder", "Burning"],
+    places: ["Wastes", "Caldera", "Forge", "Flats", "Rift"],
+    sights: ["Rivers of magma split the ground", "Ash falls like black snow", "Vents breathe sulfur into a red sky"],
+    hazards: ["the lava pools swallow the careless", "the heat warps every sightline", "the ground cracks underfoot"],
+  },
+  {
+    biome: "frozen",
+    adjectives: ["Frozen", "Frostbound", "Glacial", "Howling", "Rime-Locked"],
+    places: ["Reach", "Tundra", "Shelf", "Hollow", "Drift"],
+    sights: ["Blue ice groans under a pale sun", "Snow hides the wreckage of old landers", "Aurora light ripples over the glacier"],
+    hazards: ["the ice gives no grip to the hurried", "meltwater runs under a thin crust", "the cold slows every step"],
+  },
+  {
+    biome: "wildwood",
+    adjectives: ["Overgrown", "Spore-Choked", "Whispering", "Drowned", "Toxic"],
+    places: ["Jungle", "Marsh", "Grove", "Bog", "Thicket"],
+    sights: ["Bioluminescent vines strangle the canopy", "Spore clouds drift between giant trunks", "Acid pools steam under the roots"],
+    hazards: ["the mud drags at every boot", "something moves beneath the water", "the air itself stings"],
+  },
+  {
+    biome: "crystal",
+    adjectives: ["Crystal", "Prismatic", "Luminous", "Shattered", "Humming"],
+    places: ["Caverns", "Expanse", "Geode", "Spires", "Fields"],
+    sights: ["Crystal spires sing in the wind", "Light splits into a thousand colours", "Quartz forests glow from within"],
+    hazards: ["the shards resonate with every footstep", "reflections hide what hunts here", "the glow draws things out of the dark"],
+  },
+  {
+    biome: "ruins",
+    adjectives: ["Forgotten", "Ancient", "Sunken", "Fallen", "Silent"],
+    places: ["Ruins", "Citadel", "Temple", "Necropolis", "Dunes"],
+    sights: ["Broken colossi guard an empty city", "Sand buries the halls of a dead empire", "Glyphs still pulse on toppled walls"],
+    hazards: ["the old defences still wake", "cover crumbles under fire", "every corridor is a trap"],
+  },
+  {
+    biome: "outskirts",
+    adjectives: ["Abandoned", "Outer", "Burnt-Out", "Quarantined", "Lost"],
+    places: ["Outpost", "Colony", "Sector", "Frontier", "Settlement"],
+    sights: ["Empty habitats flicker with emergency light", "Rusting walkers stand frozen mid-stride", "Signal towers repeat a warning no one answers"],
+    hazards: ["the colonists never left", "the perimeter guns have picked a new side", "scavengers have claimed the streets"],
+  },
+];
+
+const BOSS_SYLLABLES = [["Vor", "Xal", "Ky", "Mor", "Zer", "Ul", "Thra", "Nix", "Gor", "Sae"], ["thax", "gul", "rix", "oth", "ven", "mara", "zeth", "kor", "lith", "quor"]];
+const BOSS_EPITHETS = ["Ember Titan", "Storm Queen", "Iron Warden", "Shadow Stalker", "Hive Mother", "Stone Colossus", "Void Spiral", "Crystal Sentinel", "Raging Behemoth", "Watching Eye"];
+const BOSS_FORMS = ["towering construct", "swarm-mind wearing a shell of bone", "beast of plated stone", "shifting mass of light and teeth", "war machine older than the planet"];
+const BOSS_DEEDS = ["guards the crystal heart of this place", "hunts anything that carries a crystal", "was buried here for a reason", "answers the crystals' call", "has waited centuries for prey"];
+
+const capitalise = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+export const generateOfflineLevelInfo = (levelNumber: number, runSeed: string): LevelInfo => {
+  // Salted so the briefing does not read the same stream as the level's world
+  const rng: Rng = createRng(getLevelSeed(runSeed, levelNumber) ^ 0x5EED1E);
+  const theme = pick(rng, THEMES);
+  const biomeName = `${pick(rng, theme.adjectives)} ${pick(rng, theme.places)}`;
+  // Deeper levels sound worse
+  const dread = levelNumber >= 6 ? " Few squads have come back from this deep." : levelNumber >= 3 ? " Expect heavy resistance." : "";
+  const bossName = `${pick(rng, BOSS_SYLLABLES[0])}${pick(rng, BOSS_SYLLABLES[1])}, the ${pick(rng, BOSS_EPITHETS)}`;
+  return {
+    levelNumber,
+    biomeName,
+    description: `${pick(rng, theme.sights)}, and ${pick(rng, theme.hazards)}.${dread}`,
+    bossName,
+    bossDescription: capitalise(`a ${pick(rng, BOSS_FORMS)} that ${pick(rng, BOSS_DEEDS)}${random(rng) < 0.5 ? "." : ", and it knows you are coming."}`),
+    params: {
+      biome: theme.biome,
+      enemyMix: {},
+      spawnRate: randomRange(rng, 0.9, 1.1 + Math.min(levelNumber, 8) * 0.03),
+      bossHpMultiplier: 1,
+      bossStyle: [],
+      hazardDensity: randomRange(rng, 0.7, 1.3),
+    },
+  };
+};
+
+export const offlineProvider: LevelInfoProvider = {
+  id: "offline",
+  name: "Offline Archive",
+  isAvailable: () => true,
+  generate: async (level, runSeed) => generateOfflineLevelInfo(level, runSeed),
+};
@@ -0,0 +1,49 @@
+import { LevelInfoProvider, NarratorProvider } from "../types";
+import { buildLevelPrompt, LEVEL_FIELDS, parseLevelResponse } from "./levelPrompt";
+
+// Any server that speaks the OpenAI chat completions API: a local Ollama, LM Studio or llama.cpp, or a hosted one.
+const OPENAI_BASE_URL = (process.env.OPENAI_BASE_URL || "").replace(/\/+$/, "");
+const OPENAI_MODEL = process.env.OPENAI_MODEL || "llama3.1";
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY || "";
+
+// Sends one chat completion and returns the JSON object inside the answer.
+const complete = async (system: string, prompt: string, temperature: number, signal?: AbortSignal): Promise<string> => {
+  const response = await fetch(`${OPENAI_BASE_URL}/chat/completions`, {
+    method: "POST",
+    signal,
+    headers: {
+      "Content-Type": "application/json",
+      ...(OPENAI_API_KEY ? { Authorization: `Bearer ${OPENAI_API_KEY}` } : {}),
+    },
+    body: JSON.stringify({
+      model: OPENAI_MODEL,
+      temperature,
+      response_format: { type: "json_object" },
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: prompt },
+      ],
+    }),
+  });
+  if (!response.ok) throw new Error(`Model endpoint answered ${response.status}`);
+  const data = await response.json();
+  const content: string = data?.choices?.[0]?.message?.content || "";
+  // Smaller local models like to wrap the object in a code fence
+  return content.slice(content.indexOf("{"), content.lastIndexOf("}") + 1) || "{}";
+};
+
+export const openAiCompatibleProvider: LevelInfoProvider = {
+  id: "openai",
+  name: `${OPENAI_MODEL} (local)`,
+  isAvailable: () => !!OPENAI_BASE_URL,
+  generate: async (level, _runSeed, signal) => {
+    const system = `Answer with a single JSON object with the fields ${LEVEL_FIELDS.join(", ")} and nothing else.`;
+    return parseLevelResponse(level, await complete(system, buildLevelPrompt(level), 0.9, signal));
+  },
+};
+
+export const openAiCompatibleNarrator: NarratorProvider = {
+  id: "openai",
+  isAvailable: () => !!OPENAI_BASE_URL,
+  narrate: (prompt, signal) => complete("Answer with a single JSON object with the field lines and nothing else.", prompt, 1, signal),
+};
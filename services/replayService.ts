@@ -0,0 +1,65 @@
+import { Replay } from "../types";
+import { decodeReplayInputs } from "../engine/replay";
+import { validateLevelInfo, validateLoadouts } from "./runSaveService";
+
+const LAST_REPLAY_KEY = "crystal-hunters:last-replay";
+
+export const saveLastReplay = (replay: Replay) => {
+  try {
+    localStorage.setItem(LAST_REPLAY_KEY, JSON.stringify(replay));
+  } catch (error) {
+    console.error("Could not store replay", error);
+  }
+};
+
+export const loadLastReplay = (): Replay | null => {
+  try {
+    const raw = localStorage.getItem(LAST_REPLAY_KEY);
+    return raw ? parseReplay(raw) : null;
+  } catch (error) {
+    console.error("Stored replay is unreadable", error);
+    return null;
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Throws if the text is not a replay this build can play.
+export const parseReplay = (text: string): Replay => {
+  const raw: unknown = JSON.parse(text);
+  if (!isRecord(raw)) throw new Error("Not a replay file");
+  const { version, runSeed, playerIds, tickCount, inputs } = raw;
+  if (typeof version !== "number" || typeof runSeed !== "string" || typeof inputs !== "string") throw new Error("Not a replay file");
+  if (!Array.isArray(playerIds) || !playerIds.every((id): id is string => typeof id === "string")) throw new Error("Replay players are invalid");
+  if (typeof tickCount !== "number" || !Number.isInteger(tickCount) || tickCount < 0) throw new Error("Replay tick count is invalid");
+
+  const loadouts = validateLoadouts(raw.loadouts);
+  if (playerIds.length !== Object.keys(loadouts).length || !playerIds.every(id => id in loadouts)) {
+    throw new Error("Replay players do not match its loadouts");
+  }
+  const replay: Replay = {
+    version,
+    runSeed,
+    levelInfo: validateLevelInfo(raw.levelInfo),
+    playerIds,
+    loadouts,
+    tickCount,
+    inputs,
+  };
+  // Also checks the version, and that the input stream decodes to exactly tickCount frames
+  decodeReplayInputs(replay);
+  return replay;
+};
+
+export const downloadReplay = (replay: Replay) => {
+  const blob = new Blob([JSON.stringify(replay)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `crystal-hunters-${replay.runSeed}-L${replay.levelInfo.levelNumber}.replay.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const readReplayFile = async (file: File): Promise<Replay> => parseReplay(await file.text());
@@ -0,0 +1,144 @@
+import { CarriedPlayerState, LevelInfo, PlayerLoadout, RunSave, RunStats, WeaponTier } from "../types";
+import { hashSeed, normalizeRunSeed } from "../engine/rng";
+import { hasWeapon, WEAPON_TIERS } from "../engine/weapons";
+import { getItem } from "../engine/items";
+import { PLAYER_ROLES } from "../engine/unlocks";
+import { sanitizeLevelParams } from "../engine/levelParams";
+
+const RUN_SAVE_KEY = "crystal-hunters:run";
+export const RUN_SAVE_VERSION = 1;
+
+// Anything outside these bounds was not produced by the game.
+const MAX_LEVEL = 999;
+const MAX_HP = 10000;
+const MAX_SCORE = 1e9;
+const MAX_AMMO = 10000;
+const MAX_STACKS = 999;
+
+// Stored next to the run so hand-edited or truncated saves are caught. Not a security boundary.
+const checksum = (run: unknown) => hashSeed(JSON.stringify(run));
+
+const isInt = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const isNumber = (value: unknown, min: number, max: number): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isWeaponTier = (value: unknown): value is WeaponTier => WEAPON_TIERS.includes(value as WeaponTier);
+
+// An assertion, so every field it passes is narrowed for the code after it.
+const check: (condition: boolean, message: string) => asserts condition = (condition, message) => {
+  if (!condition) throw new Error(message);
+};
+
+// Shared with replay files, which carry the same level info and loadouts.
+export const validateLevelInfo = (info: unknown): LevelInfo => {
+  check(isRecord(info), "Level info is missing");
+  const { levelNumber, biomeName, description, bossName, bossDescription, params } = info;
+  check(isInt(levelNumber, 1, MAX_LEVEL), "Level info has no level number");
+  check(typeof biomeName === "string" && typeof description === "string", "Level info has a missing field");
+  check(typeof bossName === "string" && typeof bossDescription === "string", "Level info has a missing field");
+  const levelInfo: LevelInfo = { levelNumber, biomeName, description, bossName, bossDescription };
+  // The provider's knobs shape the level, so a continued run must get them back
+  if (params !== undefined) levelInfo.params = sanitizeLevelParams(params, levelInfo);
+  return levelInfo;
+};
+
+const validateStats = (stats: unknown): RunStats => {
+  check(isRecord(stats), "Run stats are missing");
+  // Runs saved before revives were counted have none
+  const { score, kills, crystals, bosses, revives = 0 } = stats;
+  check(isNumber(score, -MAX_SCORE, MAX_SCORE), "Run score is out of range");
+  check([kills, crystals, bosses, revives].every(n => isInt(n, 0, MAX_SCORE)), "Run stats are out of range");
+  return { score, kills, crystals, bosses, revives } as RunStats;
+};
+
+const validateCarried = (carried: unknown): CarriedPlayerState => {
+  check(isRecord(carried), "Player state is missing");
+  const { weapon, weaponTier, weaponPower, ammo, reserveAmmo, hp, score } = carried;
+  check(typeof weapon === "string" && hasWeapon(weapon), `Unknown weapon "${weapon}"`);
+  check(isWeaponTier(weaponTier), `Unknown weapon tier "${weaponTier}"`);
+  check(isNumber(weaponPower, 0, 100), "Weapon power is out of range");
+  check(isInt(ammo, 0, MAX_AMMO) && isInt(reserveAmmo, 0, MAX_AMMO), "Ammo is out of range");
+  check(isNumber(hp, 0, MAX_HP), "Health is out of range");
+  check(isNumber(score, 0, MAX_SCORE), "Score is out of range");
+  return { weapon, weaponTier, weaponPower, ammo, reserveAmmo, hp, score };
+};
+
+const validateLoadout = (loadout: unknown): PlayerLoadout => {
+  check(isRecord(loadout), "Player loadout is missing");
+  const { weapon, bonusMaxHp, items, carried } = loadout;
+  check(weapon === undefined || (typeof weapon === "string" && hasWeapon(weapon)), `Unknown weapon "${weapon}"`);
+  check(bonusMaxHp === undefined || isNumber(bonusMaxHp, 0, MAX_HP), "Bonus health is out of range");
+  check(isRecord(items), "Inventory is missing");
+  const inventory = items;
+  for (const id of Object.keys(inventory)) {
+    check(!!getItem(id), `Unknown item "${id}"`);
+    check(isInt(inventory[id], 1, MAX_STACKS), `Item "${id}" has an invalid stack count`);
+  }
+  return {
+    ...(weapon !== undefined && { weapon: weapon as string }),
+    ...(bonusMaxHp !== undefined && { bonusMaxHp: bonusMaxHp as number }),
+    items: { ...(inventory as Record<string, number>) },
+    // Only loadouts taken out of a finished level carry a player state
+    ...(carried !== undefined && { carried: validateCarried(carried) }),
+  };
+};
+
+export const validateLoadouts = (loadouts: unknown): Record<string, PlayerLoadout> => {
+  check(isRecord(loadouts), "Loadouts are missing");
+  const playerIds = Object.keys(PLAYER_ROLES);
+  const loadoutIds = Object.keys(loadouts);
+  check(loadoutIds.length === playerIds.length && loadoutIds.every(id => playerIds.includes(id)), "Loadouts have the wrong players");
+  return Object.fromEntries(playerIds.map(id => [id, validateLoadout(loadouts[id])]));
+};
+
+// Throws if the text is not an intact run save this build can continue.
+export const parseRunSave = (text: string): RunSave => {
+  const stored: unknown = JSON.parse(text);
+  check(isRecord(stored) && isRecord(stored.run), "Not a run save");
+  const run = stored.run;
+  check(stored.checksum === checksum(run), "Run save checksum does not match");
+  check(run.version === RUN_SAVE_VERSION, `Unsupported run save version ${run.version}`);
+  check(typeof run.runSeed === "string" && run.runSeed !== "" && normalizeRunSeed(run.runSeed) === run.runSeed, "Run seed is invalid");
+  check(isInt(run.level, 1, MAX_LEVEL), "Level is out of range");
+  check(isNumber(run.savedAt, 0, Number.MAX_SAFE_INTEGER), "Save time is invalid");
+  const levelInfo = validateLevelInfo(run.levelInfo);
+  check(levelInfo.levelNumber === run.level, "Level info does not match the saved level");
+
+  return {
+    version: run.version,
+    runSeed: run.runSeed,
+    level: run.level,
+    levelInfo,
+    loadouts: validateLoadouts(run.loadouts),
+    stats: validateStats(run.stats),
+    savedAt: run.savedAt,
+  };
+};
+
+export const writeRunSave = (run: RunSave) => {
+  try {
+    localStorage.setItem(RUN_SAVE_KEY, JSON.stringify({ run, checksum: checksum(run) }));
+  } catch (error) {
+    console.error("Could not write run save", error);
+  }
+};
+
+export const clearRunSave = () => localStorage.removeItem(RUN_SAVE_KEY);
+
+// A save that fails validation is thrown away; the error says why.
+export const loadRunSave = (): { run: RunSave | null; error: string | null } => {
+  const raw = localStorage.getItem(RUN_SAVE_KEY);
+  if (!raw) return { run: null, error: null };
+  try {
+    return { run: parseRunSave(raw), error: null };
+  } catch (error) {
+    console.error("Saved run is unreadable", error);
+    clearRunSave();
+    return { run: null, error: (error as Error).message };
+  }
+};
@@ -0,0 +1,182 @@
+import { LifetimeStats, MetaSave, RunRecord, RunStats, UnlockDefinition } from "../types";
+import { canUnlock } from "../engine/unlocks";
+
+const SAVE_KEY = "crystal-hunters:save";
+export const SAVE_VERSION = 2;
+
+const HISTORY_LIMIT = 20;
+const HIGH_SCORE_LIMIT = 10;
+const SHARDS_PER_BOSS = 10;
+
+export const EMPTY_RUN_STATS: RunStats = { score: 0, kills: 0, crystals: 0, bosses: 0, revives: 0 };
+
+export const addRunStats = (a: RunStats, b: RunStats): RunStats => ({
+  score: a.score + b.score,
+  kills: a.kills + b.kills,
+  crystals: a.crystals + b.crystals,
+  bosses: a.bosses + b.bosses,
+  revives: a.revives + b.revives,
+});
+
+export const createEmptySave = (): MetaSave => ({
+  version: SAVE_VERSION,
+  shards: 0,
+  unlocks: [],
+  lifetime: { ...EMPTY_RUN_STATS, runs: 0, levelsCleared: 0, bestLevel: 0 },
+  history: [],
+  highScores: [],
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+// Fields added within a version are missing from older saves and fall back to their defaults.
+const readCount = (value: unknown, fallback: number, name: string): number => {
+  if (value === undefined) return fallback;
+  if (!isCount(value)) throw new Error(`Save field ${name} is not a count`);
+  return value;
+};
+
+// Scores can go negative within a level, so they are only checked for being numbers.
+const readScore = (value: unknown, name: string): number => {
+  if (value === undefined) return 0;
+  if (typeof value !== "number" || !Number.isFinite(value)) throw new Error(`Save field ${name} is not a number`);
+  return value;
+};
+
+const readStats = (raw: Record<string, unknown>, name: string): RunStats => ({
+  score: readScore(raw.score, `${name}.score`),
+  kills: readCount(raw.kills, 0, `${name}.kills`),
+  crystals: readCount(raw.crystals, 0, `${name}.crystals`),
+  bosses: readCount(raw.bosses, 0, `${name}.bosses`),
+  revives: readCount(raw.revives, 0, `${name}.revives`),
+});
+
+// Run history is only for show, so a damaged entry is dropped rather than failing the save.
+const readRuns = (value: unknown): RunRecord[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((raw): RunRecord[] => {
+    if (!isRecord(raw) || typeof raw.seed !== "string") return [];
+    try {
+      return [{
+        ...readStats(raw, "run"),
+        seed: raw.seed,
+        endedAt: readCount(raw.endedAt, 0, "run.endedAt"),
+        levelReached: readCount(raw.levelReached, 1, "run.levelReached"),
+        shardsEarned: readCount(raw.shardsEarned, 0, "run.shardsEarned"),
+      }];
+    } catch {
+      return [];
+    }
+  });
+};
+
+const withRevives = (stats: unknown): unknown => (isRecord(stats) ? { ...stats, revives: 0 } : stats);
+
+// Each entry upgrades a save from its key version to the next. Never edit a shipped entry;
+// bump SAVE_VERSION and add a new one.
+const MIGRATIONS: Record<number, (save: unknown) => unknown> = {
+  // Version 2 counts revives in every stats block.
+  1: save => {
+    if (!isRecord(save)) return save;
+    return {
+      ...save,
+      lifetime: withRevives(save.lifetime),
+      history: Array.isArray(save.history) ? save.history.map(withRevives) : save.history,
+      highScores: Array.isArray(save.highScores) ? save.highScores.map(withRevives) : save.highScores,
+    };
+  },
+};
+
+const readVersion = (save: unknown): number => {
+  if (!isRecord(save) || typeof save.version !== "number") throw new Error("Save has no version");
+  return save.version;
+};
+
+const migrate = (raw: unknown): unknown => {
+  let save = raw;
+  let version = readVersion(save);
+  if (version > SAVE_VERSION) throw new Error(`Save version ${version} is newer than this build`);
+  while (version < SAVE_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`No migration from save version ${version}`);
+    const next = step(save);
+    if (!isRecord(next)) throw new Error(`Migration from save version ${version} lost the save`);
+    version += 1;
+    save = { ...next, version };
+  }
+  return save;
+};
+
+// Upgrades parsed JSON to the current version, then narrows it to a save field by field.
+const parseSave = (json: unknown): MetaSave => {
+  const raw = migrate(json);
+  if (!isRecord(raw)) throw new Error("Save has no version");
+
+  const unlocks = raw.unlocks ?? [];
+  if (!Array.isArray(unlocks) || !unlocks.every(id => typeof id === "string")) throw new Error("Save unlocks are not a list of ids");
+  const lifetime = raw.lifetime ?? {};
+  if (!isRecord(lifetime)) throw new Error("Save lifetime stats are missing");
+  return {
+    version: SAVE_VERSION,
+    shards: readCount(raw.shards, 0, "shards"),
+    unlocks,
+    lifetime: {
+      ...readStats(lifetime, "lifetime"),
+      runs: readCount(lifetime.runs, 0, "lifetime.runs"),
+      levelsCleared: readCount(lifetime.levelsCleared, 0, "lifetime.levelsCleared"),
+      bestLevel: readCount(lifetime.bestLevel, 0, "lifetime.bestLevel"),
+    },
+    history: readRuns(raw.history),
+    highScores: readRuns(raw.highScores),
+  };
+};
+
+export const loadSave = (): MetaSave => {
+  const raw = localStorage.getItem(SAVE_KEY);
+  if (!raw) return createEmptySave();
+  try {
+    return parseSave(JSON.parse(raw));
+  } catch (error) {
+    // Keep the unreadable save aside so starting fresh never destroys it.
+    console.error("Save could not be loaded; starting a new one", error);
+    localStorage.setItem(`${SAVE_KEY}:backup`, raw);
+    return createEmptySave();
+  }
+};
+
+export const writeSave = (save: MetaSave) => {
+  try {
+    localStorage.setItem(SAVE_KEY, JSON.stringify(save));
+  } catch (error) {
+    console.error("Could not write save", error);
+  }
+};
+
+export const getShardsForLevel = (stats: RunStats) => stats.crystals + stats.bosses * SHARDS_PER_BOSS;
+
+// Banks a finished level (won or lost) into shards and lifetime stats.
+export const applyLevelResult = (save: MetaSave, stats: RunStats, levelNumber: number, cleared: boolean): MetaSave => {
+  const lifetime: LifetimeStats = {
+    ...addRunStats(save.lifetime, stats),
+    runs: save.lifetime.runs,
+    levelsCleared: save.lifetime.levelsCleared + (cleared ? 1 : 0),
+    bestLevel: Math.max(save.lifetime.bestLevel, levelNumber),
+  };
+  return { ...save, shards: save.shards + getShardsForLevel(stats), lifetime };
+};
+
+export const recordRun = (save: MetaSave, run: RunRecord): MetaSave => ({
+  ...save,
+  lifetime: { ...save.lifetime, runs: save.lifetime.runs + 1 },
+  history: [run, ...save.history].slice(0, HISTORY_LIMIT),
+  highScores: [...save.highScores, run].sort((a, b) => b.score - a.score).slice(0, HIGH_SCORE_LIMIT),
+});
+
+// Returns the save untouched when the unlock is owned, locked or unaffordable.
+export const purchaseUnlock = (save: MetaSave, unlock: UnlockDefinition): MetaSave => {
+  if (!canUnlock(save, unlock)) return save;
+  return { ...save, shards: save.shards - unlock.cost, unlocks: [...save.unlocks, unlock.id] };
+};
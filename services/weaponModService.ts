@@ -0,0 +1,19 @@
+import { WeaponType } from "../types";
+import { parseWeaponDefinitions, registerWeapon } from "../engine/weapons";
+
+// Served from the site root (e.g. public/mods/weapons.json); a missing file just means no mods.
+const WEAPON_MODS_URL = "mods/weapons.json";
+
+export const loadWeaponMods = async (url: string = WEAPON_MODS_URL): Promise<WeaponType[]> => {
+  try {
+    const response = await fetch(url);
+    // The dev server answers unknown paths with index.html, so check the type too.
+    if (!response.ok || !response.headers.get("content-type")?.includes("json")) return [];
+    const weapons = parseWeaponDefinitions(await response.json());
+    weapons.forEach(registerWeapon);
+    return weapons.map(w => w.id);
+  } catch (error) {
+    console.error("Weapon mods could not be loaded", error);
+    return [];
+  }
+};
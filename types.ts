@@ -3,7 +3,8 @@ export enum GameState {
   LOADING_LEVEL,
   PLAYING,
   GAME_OVER,
-  VICTORY
+  VICTORY,
+  REPLAY
 }
 
 export interface Vector2 {
@@ -21,28 +22,175 @@ export interface Entity {
   hp: number;
   maxHp: number;
   dead: boolean;
-  type: 'player' | 'enemy' | 'boss' | 'crystal' | 'crate' | 'pickup';
+  type: 'player' | 'enemy' | 'boss' | 'crystal' | 'crate' | 'pickup' | 'item';
 }
 
+// Trees, buildings, ruins and cover block movement (all but trees also stop bullets); landmarks are walkable.
 export interface EnvironmentObject {
   id: string;
-  type: 'tree' | 'building';
+  type: 'tree' | 'building' | 'ruin' | 'cover' | 'landmark';
   pos: Vector2;
   size: Vector2;
   color: string;
+  hp?: number;              // cover only: damage it takes before it breaks
+  landmark?: LandmarkType;
 }
 
-export type WeaponType = 'sniper' | 'ak47' | 'shotgun' | 'minigun' | 'laser';
+// Ground covering a whole procedural grid cell (see engine/environment.ts).
+export type TerrainType = 'water' | 'mud' | 'ice' | 'lava' | 'acid' | 'crystal_field' | 'spring';
+
+// What standing on a ground type does (see engine/terrain.ts).
+export interface TerrainEffect {
+  name: string;
+  color: string;            // default; biome palettes can override it
+  friction: number;         // replaces FRICTION
+  acceleration: number;     // multiplies ACCELERATION
+  damagePerSecond: number;  // to players and enemies
+  healPerSecond: number;    // to players
+}
+
+export type LandmarkType = 'shrine' | 'arena' | 'altar';
+
+export interface BiomePalette {
+  ground: string;
+  grid: string;
+  trees: string[];
+  foliage: string;
+  buildings: string[];
+  roof: string;
+  windows: string[];
+  ruin: string;
+  cover: string;
+  terrain: Partial<Record<TerrainType, string>>;
+}
+
+// An entry in the biome registry (engine/biomes.ts). Densities are per grid cell, 0..1.
+export interface Biome {
+  id: string;
+  name: string;
+  keywords: string[];        // matched against the start of words in the level's biome name and description
+  palette: BiomePalette;
+  terrain: TerrainType[];    // ground types this biome has, picked between by a second noise layer
+  terrainCoverage: number;   // share of cells covered by them
+  treeDensity: number;
+  buildingDensity: number;
+  ruinDensity: number;
+  coverDensity: number;
+}
+
+// What the procedural world depends on; a GameWorld is one.
+export interface TerrainSource {
+  seed: number;
+  params: Pick<LevelParams, 'biome' | 'hazardDensity'>;
+  coverDamage: Record<string, number>;
+}
+
+// Id of an entry in the weapon registry (engine/weapons.ts). Mods can add more at runtime.
+export type WeaponType = string;
+
+export interface ProjectileDefinition {
+  speed: number;
+  damage: number;
+  radius: number;
+  lifeTime: number;
+  color: string;
+  homing?: { range: number; strength: number }; // strength: share of the course corrected per tick
+  pierce?: number;                               // extra targets passed through
+  bounces?: number;                              // ricochets off buildings
+}
+
+export type WeaponTier = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
+
+export interface WeaponDefinition {
+  id: WeaponType;
+  name: string;
+  cooldown: number;
+  magazine: number;
+  reloadTime: number;
+  reserve: number;      // spare rounds that come with a fresh pickup
+  pellets: number;
+  spread: number;       // fixed angle between pellets
+  jitter: number;       // random spread, total angle
+  recoil: number;
+  droppable: boolean;   // can come out of crates
+  projectile: ProjectileDefinition;
+  visual: { color: string; length: number; scopeColor?: string };
+}
 
 export interface Player extends Entity {
   role: 'boy' | 'girl';
   weapon: WeaponType;
+  weaponTier: WeaponTier;
+  weaponPower: number;  // damage multiplier from tier and level
+  ammo: number;         // rounds in the magazine
+  reserveAmmo: number;
+  reloadTime: number;   // ticks left in the current reload
+  sidearm: WeaponType;  // drawn again when a picked-up weapon runs dry
+  items: Inventory;
   cooldown: number;
   maxCooldown: number;
   dashCooldown: number;
+  dashTime: number;     // ticks left in the current dash
+  meleeCooldown: number;
+  meleeTime: number;    // ticks left in the current swing
   score: number;
   isInvulnerable: boolean;
   animFrame: number; 
+  downed: boolean;         // at 0 HP but revivable while a partner still stands
+  bleedOut: number;        // ticks left before a downed player dies
+  reviveProgress: number;  // ticks a partner has spent reviving, out of REVIVE_TIME
+}
+
+export type ItemRarity = 'common' | 'uncommon' | 'legendary' | 'boss';
+
+// Stack counts keyed by item id.
+export type Inventory = Record<string, number>;
+
+export type ItemStat = 'damage' | 'fireRate' | 'moveSpeed' | 'maxHp';
+
+export interface ItemHookContext {
+  world: GameWorld;
+  owner: Player;
+  target: Enemy;
+  stacks: number;
+  damage: number;  // the triggering hit; 0 for kills
+  dealDamage: (target: Enemy, damage: number) => void;  // item damage never procs items
+}
+
+export interface ItemDefinition {
+  id: string;
+  name: string;
+  icon: string;
+  rarity: ItemRarity;
+  description: string;
+  stats?: Partial<Record<ItemStat, number>>;  // added once per stack
+  onHit?: (ctx: ItemHookContext) => void;
+  onKill?: (ctx: ItemHookContext) => void;
+}
+
+// A player's state at the end of a level that continues into the next one.
+export interface CarriedPlayerState {
+  weapon: WeaponType;
+  weaponTier: WeaponTier;
+  weaponPower: number;
+  ammo: number;
+  reserveAmmo: number;
+  hp: number;
+  score: number;
+}
+
+// What a player brings into a level: perks bought with shards plus items from earlier levels.
+export interface PlayerLoadout {
+  weapon?: WeaponType;
+  bonusMaxHp?: number;
+  items: Inventory;
+  carried?: CarriedPlayerState;
+}
+
+export interface ItemDrop extends Entity {
+  type: 'item';
+  itemId: string;
+  lifeTime: number;
 }
 
 export interface Crate extends Entity {
@@ -52,6 +200,8 @@ export interface Crate extends Entity {
 export interface Pickup extends Entity {
   type: 'pickup';
   weaponType: WeaponType;
+  tier: WeaponTier;
+  power: number;
   lifeTime: number;
 }
 
@@ -63,12 +213,74 @@ export interface EnemyVisuals {
   hasEye: boolean;
 }
 
+// Registry key (see engine/enemies.ts): 'walker', 'shooter', 'charger', 'splitter', 'healer', 'sniper', 'burrower', 'boss'.
+export type EnemyType = string;
+
+// What an archetype is in the middle of; `phaseTime` counts the current phase down.
+export type EnemyPhase = 'idle' | 'telegraph' | 'charging' | 'aiming' | 'burrowed' | 'surfacing';
+
 export interface Enemy extends Entity {
-  enemyType: 'walker' | 'shooter' | 'boss';
+  enemyType: EnemyType;
   targetId: string | null;
   attackCooldown: number;
   animFrame: number;
   visuals: EnemyVisuals;
+  phase: EnemyPhase;
+  phaseTime: number;
+  aim: Vector2;         // locked direction of a charge or sniper shot
+  buffTime: number;     // ticks left on a healer's buff
+}
+
+export interface EnemyBehaviorContext {
+  world: GameWorld;
+  enemy: Enemy;
+  target: Player;
+  dist: number;
+  angle: number;        // towards the target, for aiming
+  heading: number;      // where to walk to reach the target around obstacles
+  speed: number;        // archetype speed after size and buffs
+  force: Vector2;       // steering for this tick; flocking is added afterwards
+  fire: (angle: number, speed: number, bulletType?: WeaponType, from?: Vector2) => void;  // from the enemy unless `from` is given
+  hitPlayer: (p: Player, damage: number) => void;
+  spawn: (type: EnemyType, pos: Vector2, scale: number) => void;
+}
+
+// One boss attack (see engine/bosses.ts). `tick` runs from 0 to duration - 1.
+export interface BossPattern {
+  id: string;
+  name: string;
+  keywords: string[];   // word stems that pull this pattern in when the boss name or description uses them
+  duration: number;
+  cooldown: number;     // pause after the pattern before the next one starts
+  update: (ctx: EnemyBehaviorContext, tick: number) => void;
+}
+
+// The level's boss fight, fixed when the level is built so replays and online partners agree.
+export interface BossState {
+  name: string;
+  patterns: string[][];   // pattern ids per phase
+  thresholds: number[];   // HP fractions where phase 2, 3, ... begin, descending
+  phase: number;
+  pattern: string | null; // the pattern running right now
+  patternTick: number;
+  next: number;           // rotation through the current phase's patterns
+}
+
+export interface EnemyArchetype {
+  id: EnemyType;
+  name: string;
+  hp: number;
+  hpPerLevel: number;
+  radius: number;
+  speed: number;
+  hue?: number;         // fixed hue so dangerous types read at a glance; random otherwise
+  saturation: number;
+  lightness: number;
+  initialPhase?: EnemyPhase;
+  // Weight in the random spawn table from `minLevel` on; omitted for types that never spawn randomly.
+  spawn?: { minLevel: number; weight: number; weightPerLevel: number };
+  update: (ctx: EnemyBehaviorContext) => void;
+  onDeath?: (ctx: { world: GameWorld; enemy: Enemy; spawn: (type: EnemyType, pos: Vector2, scale: number) => void }) => void;
 }
 
 export interface Bullet {
@@ -81,7 +293,10 @@ export interface Bullet {
   damage: number;
   lifeTime: number;
   isReflected: boolean;
-  bulletType: WeaponType | 'enemy_normal';
+  bulletType: WeaponType;
+  pierceLeft: number;
+  bouncesLeft: number;
+  hitIds: string[];     // targets already pierced, so a slow bullet cannot hit them twice
 }
 
 export interface Particle {
@@ -101,4 +316,192 @@ export interface LevelInfo {
   description: string;
   bossName: string;
   bossDescription: string;
-}
\ No newline at end of file
+  params?: LevelParams;   // gameplay knobs from the provider; resolved through engine/levelParams.ts before use
+}
+
+// Gameplay knobs a level provider can set. Limits and defaults live in engine/levelParams.ts.
+export interface LevelParams {
+  biome: string;                       // biome registry id: palette, terrain and obstacles
+  enemyMix: Record<EnemyType, number>; // archetype id -> multiplier on its spawn weight; missing means 1
+  spawnRate: number;                   // multiplies how often enemies arrive
+  bossHpMultiplier: number;
+  bossStyle: string[];                 // boss pattern ids that lead the rotation
+  hazardDensity: number;               // multiplies the biome's ground coverage
+}
+
+// A source of level briefings (see services/levelInfoService.ts). Providers throw on failure;
+// the service falls through to the next one and finally to the offline generator.
+export interface LevelInfoProvider {
+  id: string;
+  name: string;                 // shown on the loading screen
+  isAvailable: () => boolean;   // configured at all (API key, endpoint)
+  generate: (levelNumber: number, runSeed: string, signal?: AbortSignal) => Promise<LevelInfo>;
+}
+
+// A model the in-run narrator can ask for radio lines (see services/narratorService.ts). It only
+// moves text: the narrator writes the prompt and reads the answer, and falls back to its own lines.
+export interface NarratorProvider {
+  id: string;
+  isAvailable: () => boolean;
+  narrate: (prompt: string, signal?: AbortSignal) => Promise<string>;
+}
+
+// One line of comms chatter: mission control talking to the squad, or the boss taunting it.
+export interface NarratorLine {
+  id: number;
+  speaker: string;
+  voice: 'command' | 'boss';
+  text: string;
+}
+
+// Seedable PRNG state (see engine/rng.ts). A plain number keeps worlds serialisable.
+export interface Rng {
+  state: number;
+}
+
+// Per-player actions for one tick. `move` is an analog vector with components in [-1, 1].
+export interface PlayerInput {
+  move: Vector2;
+  fire: boolean;
+  dash: boolean;
+  interact: boolean;
+  melee: boolean;
+}
+
+// One input snapshot per simulation tick, keyed by player id.
+export type FrameInput = Record<string, PlayerInput>;
+
+export type GameEvent =
+  | { type: 'gameOver' }
+  | { type: 'levelComplete' }
+  | { type: 'bossSpawned' }
+  | { type: 'bossPhase'; phase: number }
+  | { type: 'crystalCollected'; playerId: string; total: number }
+  | { type: 'enemyKilled'; enemyId: string; isBoss: boolean; killerId: string | null; reflected: boolean }
+  | { type: 'playerDowned'; playerId: string }
+  | { type: 'playerRevived'; playerId: string; reviverId: string }
+  | { type: 'playerDied'; playerId: string }
+  | { type: 'itemPickup'; playerId: string; itemId: string; stacks: number }
+  | { type: 'weaponPickup'; playerId: string; weapon: WeaponType; tier: WeaponTier }
+  | { type: 'coverBroken'; coverId: string };
+
+// Distance-to-nearest-player over a square of nav cells (see engine/navigation.ts).
+export interface NavField {
+  originX: number;      // nav-cell coordinates of the top-left cell
+  originY: number;
+  size: number;         // cells per side
+  dist: number[];       // steps to a player; -1 unreached, -2 blocked
+}
+
+export interface NavState {
+  field: NavField | null;                                      // the finished field enemies steer by
+  build: { field: NavField; queue: number[]; head: number } | null;  // next field, filled a budget at a time
+  nextBuild: number;    // waveTimer tick at which the next rebuild starts
+}
+
+export interface GameWorld {
+  levelNumber: number;
+  seed: number;
+  params: LevelParams;  // resolved from the level info
+  coverDamage: Record<string, number>;  // damage taken by destructible cover, by object id; broken at its hp
+  rng: Rng;
+  fxRng: Rng;
+  crystalsToBoss: number;
+  players: Player[];
+  enemies: Enemy[];
+  bullets: Bullet[];
+  particles: Particle[];
+  crystals: Entity[];
+  crates: Crate[];
+  pickups: Pickup[];
+  items: ItemDrop[];
+  waveTimer: number;
+  bossSpawned: boolean;
+  boss: BossState;
+  nav: NavState;
+  bossKilledAt: number | null;  // waveTimer tick; the level ends once its loot is gone or a grace period passes
+  enemiesKilled: number;
+  revives: number;
+  lastEntityId: number;  // ids are handed out in order (engine/pool.ts)
+  scoreAtStart: number;  // carried-in score, so level stats count only what was earned here
+  crystalsCollected: number;
+  outcome: 'playing' | 'victory' | 'defeat';
+}
+
+// A recorded level: everything needed to re-run it tick for tick (see engine/replay.ts).
+export interface Replay {
+  version: number;
+  runSeed: string;
+  levelInfo: LevelInfo;
+  playerIds: string[];
+  loadouts: Record<string, PlayerLoadout>;  // keyed by player id
+  tickCount: number;
+  // Base64 of run-length encoded per-tick input frames.
+  inputs: string;
+}
+
+export type BindableAction = 'up' | 'down' | 'left' | 'right' | 'fire' | 'dash' | 'melee' | 'interact';
+
+// How one player's devices map onto PlayerInput (see input/inputMapper.ts).
+export interface PlayerBindings {
+  keys: Record<BindableAction, string>;           // KeyboardEvent.code
+  gamepadIndex: number | null;                     // navigator.getGamepads() slot
+  gamepadButtons: Record<BindableAction, number>;  // standard-mapping button index
+}
+
+export type ControlBindings = Record<string, PlayerBindings>;
+
+// --- Meta progression (persists across runs) ---
+
+export interface RunStats {
+  score: number;
+  kills: number;
+  crystals: number;
+  bosses: number;
+  revives: number;
+}
+
+export interface RunRecord extends RunStats {
+  seed: string;
+  endedAt: number;      // epoch ms
+  levelReached: number;
+  shardsEarned: number;
+}
+
+export interface LifetimeStats extends RunStats {
+  runs: number;
+  levelsCleared: number;
+  bestLevel: number;
+}
+
+export interface UnlockDefinition {
+  id: string;
+  name: string;
+  description: string;
+  cost: number;
+  requires?: string;
+  role?: Player['role'];   // omitted: applies to both heroes
+  weapon?: WeaponType;     // replaces the hero's starting weapon
+  bonusMaxHp?: number;
+  item?: string;           // one stack at the start of every run
+}
+
+export interface MetaSave {
+  version: number;
+  shards: number;
+  unlocks: string[];
+  lifetime: LifetimeStats;
+  history: RunRecord[];      // most recent first
+  highScores: RunRecord[];   // best first
+}
+
+// A run in progress, written on the victory screen so it survives a closed tab.
+export interface RunSave {
+  version: number;
+  runSeed: string;
+  level: number;        // the level just cleared; continuing starts the one after
+  levelInfo: LevelInfo;
+  loadouts: Record<string, PlayerLoadout>;
+  stats: RunStats;      // run totals so far
+  savedAt: number;      // epoch ms
+}